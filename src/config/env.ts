@@ -19,4 +19,53 @@ export const env = {
 
     jwtSecret: process.env.JWT_SECRET || 'change-this-to-a-random-secret',
     s3Region: process.env.S3_REGION || 'us-east-1',
+    // Virtual-hosted-style addressing: <bucket>.<S3_BASE_DOMAIN>/<key> as well as path-style
+    s3BaseDomain: (process.env.S3_BASE_DOMAIN || '').replace(/^\./, '').toLowerCase(),
+    // Believe X-Real-IP / X-Forwarded-For / X-Forwarded-Proto — only behind a proxy that sets them
+    trustProxy: process.env.TRUST_PROXY === 'true',
+
+    // Origins allowed to call the admin API (the dashboard)
+    corsOrigins: (process.env.CORS_ORIGIN || 'http://localhost:5173')
+        .split(',').map(s => s.trim()).filter(Boolean),
+
+    lifecycle: {
+        intervalMinutes: parseInt(process.env.LIFECYCLE_INTERVAL_MINUTES || '60'),
+    },
+
+    // Static website endpoint: a dedicated port (path-style /<bucket>/<key>) and/or
+    // <bucket>.<WEBSITE_HOST_SUFFIX> host names on either port
+    website: {
+        port: parseInt(process.env.WEBSITE_PORT || '0'),
+        hostSuffix: (process.env.WEBSITE_HOST_SUFFIX || '').replace(/^\./, '').toLowerCase(),
+    },
+
+    multipartGc: {
+        maxAgeHours: parseInt(process.env.MULTIPART_MAX_AGE_HOURS || '168'),
+        intervalMinutes: parseInt(process.env.MULTIPART_GC_INTERVAL_MINUTES || '60'),
+    },
+
+    notifications: {
+        maxAttempts: parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '8'),
+        retryBaseSeconds: parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || '5'),
+        timeoutMs: parseInt(process.env.NOTIFICATION_TIMEOUT_MS || '10000'),
+        pollIntervalSeconds: parseInt(process.env.NOTIFICATION_POLL_INTERVAL_SECONDS || '5'),
+        // Webhook hosts allowed to resolve to loopback, private or link-local addresses
+        allowedHosts: (process.env.NOTIFICATION_ALLOWED_HOSTS || '')
+            .split(',').map(s => s.trim().toLowerCase()).filter(Boolean),
+    },
+
+    // SSE-S3: per-object data keys are wrapped with the current master key. Retired keys
+    // (`id:base64,...`) stay readable until the re-wrap job has moved every object off them.
+    sse: {
+        masterKey: process.env.SSE_MASTER_KEY || '',
+        masterKeyId: process.env.SSE_MASTER_KEY_ID || 'default',
+        retiredMasterKeys: process.env.SSE_RETIRED_MASTER_KEYS || '',
+        encryptAll: process.env.SSE_ENCRYPT_ALL === 'true',
+        rewrapIntervalMinutes: parseInt(process.env.SSE_REWRAP_INTERVAL_MINUTES || '60'),
+    },
+
+    eventFeed: {
+        retentionHours: parseInt(process.env.EVENT_LOG_RETENTION_HOURS || '24'),
+        maxWaitSeconds: parseInt(process.env.EVENT_FEED_MAX_WAIT_SECONDS || '60'),
+    },
 };
@@ -14,5 +14,18 @@ const pool = mysql.createPool({
     queueLimit: 0,
 });
 
+// Connections that hold per-key write locks (GET_LOCK) while the writer runs its queries on
+// `pool` — separate, so lock holders can never starve the queries they are waiting on
+const lockPool = mysql.createPool({
+    host: env.db.host,
+    port: env.db.port,
+    user: env.db.user,
+    password: env.db.password,
+    database: env.db.database,
+    waitForConnections: true,
+    connectionLimit: 10,
+    queueLimit: 0,
+});
+
 export const db = drizzle(pool, { schema, mode: 'default' });
-export { pool };
+export { pool, lockPool };
@@ -29,6 +29,15 @@ export const buckets = mysqlTable('buckets', {
     region: varchar('region', { length: 32 }).notNull().default('us-east-1'),
     acl: varchar('acl', { length: 32 }).notNull().default('private'),
     maxSize: bigint('max_size', { mode: 'number' }).notNull().default(0),
+    versioning: varchar('versioning', { length: 16 }),
+    lifecycle: text('lifecycle'),
+    cors: text('cors'),
+    policy: text('policy'),
+    tags: text('tags'),
+    objectLock: text('object_lock'),
+    website: text('website'),
+    notification: text('notification'),
+    encryption: text('encryption'),
     createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => [
     uniqueIndex('idx_bucket_name').on(table.name),
@@ -43,11 +52,52 @@ export const objects = mysqlTable('objects', {
     contentType: varchar('content_type', { length: 255 }).notNull().default('application/octet-stream'),
     storagePath: varchar('storage_path', { length: 1024 }).notNull(),
     metadata: text('metadata'),
+    versionId: varchar('version_id', { length: 64 }).notNull().default('null'),
+    isLatest: boolean('is_latest').notNull().default(true),
     isDeleteMarker: boolean('is_delete_marker').notNull().default(false),
+    retentionMode: varchar('retention_mode', { length: 16 }),
+    retainUntilDate: timestamp('retain_until_date'),
+    legalHold: boolean('legal_hold').notNull().default(false),
+    websiteRedirectLocation: varchar('website_redirect_location', { length: 2048 }),
+    // SSE-C: only a SHA-256 of the customer's key is kept
+    sseCustomerAlgorithm: varchar('sse_customer_algorithm', { length: 16 }),
+    sseCustomerKeyHash: varchar('sse_customer_key_hash', { length: 64 }),
+    // SSE-S3: the object's data key, wrapped by the master key named in master_key_id
+    serverSideEncryption: varchar('server_side_encryption', { length: 16 }),
+    encryptedDataKey: varchar('encrypted_data_key', { length: 128 }),
+    masterKeyId: varchar('master_key_id', { length: 64 }),
+    // Flexible checksum (base64); multipart objects hold a composite value ending in -<parts>
+    checksumAlgorithm: varchar('checksum_algorithm', { length: 16 }),
+    checksumValue: varchar('checksum_value', { length: 64 }),
     lastModified: timestamp('last_modified').notNull().defaultNow().onUpdateNow(),
     createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => [
     index('idx_bucket_id').on(table.bucketId),
+    index('idx_bucket_key').on(table.bucketId, table.key),
+    index('idx_master_key').on(table.masterKeyId),
+]);
+
+export const objectTags = mysqlTable('object_tags', {
+    id: int('id').primaryKey().autoincrement(),
+    objectId: int('object_id').notNull().references(() => objects.id, { onDelete: 'cascade' }),
+    tagKey: varchar('tag_key', { length: 128 }).notNull(),
+    tagValue: varchar('tag_value', { length: 256 }).notNull().default(''),
+}, (table) => [
+    uniqueIndex('idx_object_tag').on(table.objectId, table.tagKey),
+    index('idx_tag_key_value').on(table.tagKey, table.tagValue),
+]);
+
+// Part layout of objects assembled by CompleteMultipartUpload (GetObjectAttributes ObjectParts)
+export const objectParts = mysqlTable('object_parts', {
+    id: int('id').primaryKey().autoincrement(),
+    objectId: int('object_id').notNull().references(() => objects.id, { onDelete: 'cascade' }),
+    partNumber: int('part_number').notNull(),
+    size: bigint('size', { mode: 'number' }).notNull(),
+    etag: varchar('etag', { length: 128 }).notNull(),
+    checksumAlgorithm: varchar('checksum_algorithm', { length: 16 }),
+    checksumValue: varchar('checksum_value', { length: 64 }),
+}, (table) => [
+    uniqueIndex('idx_object_part').on(table.objectId, table.partNumber),
 ]);
 
 export const multipartUploads = mysqlTable('multipart_uploads', {
@@ -57,6 +107,16 @@ export const multipartUploads = mysqlTable('multipart_uploads', {
     key: varchar('object_key', { length: 512 }).notNull(),
     contentType: varchar('content_type', { length: 255 }).notNull().default('application/octet-stream'),
     metadata: text('metadata'),
+    tagging: text('tagging'),
+    objectLock: text('object_lock'),
+    // Every part must be uploaded with the SSE-C key the upload was created with
+    sseCustomerAlgorithm: varchar('sse_customer_algorithm', { length: 16 }),
+    sseCustomerKeyHash: varchar('sse_customer_key_hash', { length: 64 }),
+    serverSideEncryption: varchar('server_side_encryption', { length: 16 }),
+    encryptedDataKey: varchar('encrypted_data_key', { length: 128 }),
+    masterKeyId: varchar('master_key_id', { length: 64 }),
+    // x-amz-checksum-algorithm from CreateMultipartUpload: every part gets a checksum of this kind
+    checksumAlgorithm: varchar('checksum_algorithm', { length: 16 }),
     initiatedAt: timestamp('initiated_at').notNull().defaultNow(),
 }, (table) => [
     uniqueIndex('idx_upload_id').on(table.uploadId),
@@ -69,11 +129,55 @@ export const multipartParts = mysqlTable('multipart_parts', {
     size: bigint('size', { mode: 'number' }).notNull().default(0),
     etag: varchar('etag', { length: 128 }).notNull(),
     storagePath: varchar('storage_path', { length: 1024 }).notNull(),
+    checksumAlgorithm: varchar('checksum_algorithm', { length: 16 }),
+    checksumValue: varchar('checksum_value', { length: 64 }),
     createdAt: timestamp('created_at').notNull().defaultNow(),
 }, (table) => [
     index('idx_upload_part').on(table.uploadId, table.partNumber),
 ]);
 
+// Outbox of webhook deliveries — rows are removed once delivered or moved to the dead-letter table
+export const notificationQueue = mysqlTable('notification_queue', {
+    id: int('id').primaryKey().autoincrement(),
+    bucketName: varchar('bucket_name', { length: 63 }).notNull(),
+    configurationId: varchar('configuration_id', { length: 255 }).notNull(),
+    targetUrl: varchar('target_url', { length: 2048 }).notNull(),
+    eventName: varchar('event_name', { length: 64 }).notNull(),
+    payload: text('payload').notNull(),
+    attempts: int('attempts').notNull().default(0),
+    nextAttemptAt: timestamp('next_attempt_at').notNull().defaultNow(),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+    index('idx_next_attempt').on(table.nextAttemptAt),
+]);
+
+export const notificationDeadLetters = mysqlTable('notification_dead_letters', {
+    id: int('id').primaryKey().autoincrement(),
+    bucketName: varchar('bucket_name', { length: 63 }).notNull(),
+    configurationId: varchar('configuration_id', { length: 255 }).notNull(),
+    targetUrl: varchar('target_url', { length: 2048 }).notNull(),
+    eventName: varchar('event_name', { length: 64 }).notNull(),
+    payload: text('payload').notNull(),
+    attempts: int('attempts').notNull(),
+    lastError: text('last_error'),
+    createdAt: timestamp('created_at').notNull(),
+    failedAt: timestamp('failed_at').notNull().defaultNow(),
+});
+
+// Append-only log behind the `?events` change feed — the row ID is the resumable cursor
+export const bucketEvents = mysqlTable('bucket_events', {
+    id: int('id').primaryKey().autoincrement(),
+    bucketName: varchar('bucket_name', { length: 63 }).notNull(),
+    eventName: varchar('event_name', { length: 64 }).notNull(),
+    objectKey: varchar('object_key', { length: 512 }).notNull(),
+    record: text('record').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+    index('idx_bucket_event').on(table.bucketName, table.id),
+    index('idx_event_created').on(table.createdAt),
+]);
+
 export const adminSessions = mysqlTable('admin_sessions', {
     id: int('id').primaryKey().autoincrement(),
     token: varchar('token', { length: 512 }).notNull().unique(),
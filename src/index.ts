@@ -1,5 +1,4 @@
 import { Elysia } from 'elysia';
-import { cors } from '@elysiajs/cors';
 import { env } from './config/env';
 import { bucketRoutes } from './routes/s3/bucket';
 import { objectRoutes } from './routes/s3/object';
@@ -8,15 +7,27 @@ import { adminAuthRoutes } from './routes/admin/auth';
 import { adminKeysRoutes } from './routes/admin/keys';
 import { adminStatsRoutes } from './routes/admin/stats';
 import { adminBucketsRoutes } from './routes/admin/buckets';
+import { corsMiddleware } from './middleware/cors';
+import { adminMultipartRoutes } from './routes/admin/multipart';
+import { adminNotificationsRoutes } from './routes/admin/notifications';
+import { adminEncryptionRoutes } from './routes/admin/encryption';
+import { startLifecycleWorker } from './lib/lifecycle';
+import { startMultipartSweeper } from './lib/multipart-gc';
+import { startNotificationWorker } from './lib/notifications';
+import { startEventLogPruner } from './lib/event-feed';
+import { startKeyRewrapper } from './lib/key-rotation';
+import { websiteHostRoutes, startWebsiteServer } from './routes/website';
+import { toPathStyleRequest } from './lib/virtual-host';
 
 const app = new Elysia()
-    .use(cors({
-        origin: (process.env.CORS_ORIGIN || 'http://localhost:5173')
-            .split(',').map(s => s.trim()).filter(Boolean),
-        methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'],
-        allowedHeaders: ['*'],
-        exposeHeaders: ['ETag', 'x-amz-request-id', 'x-amz-id-2', 'Content-Range', 'Accept-Ranges'],
-    }))
+    // Website host names (<bucket>.WEBSITE_HOST_SUFFIX) bypass the S3 API entirely
+    .use(websiteHostRoutes)
+    // <bucket>.S3_BASE_DOMAIN requests go through every route again as path-style /<bucket>/<key>
+    .onRequest(({ request, server }): Promise<Response> | undefined => {
+        const pathStyle = toPathStyleRequest(request, server?.requestIP(request)?.address);
+        if (pathStyle) return app.handle(pathStyle);
+    })
+    .use(corsMiddleware)
     .onRequest(({ request }) => {
         const url = new URL(request.url);
         console.log(`[${new Date().toISOString()}] ${request.method} ${url.pathname}${url.search}`);
@@ -26,6 +37,9 @@ const app = new Elysia()
     .use(adminKeysRoutes)
     .use(adminStatsRoutes)
     .use(adminBucketsRoutes)
+    .use(adminMultipartRoutes)
+    .use(adminNotificationsRoutes)
+    .use(adminEncryptionRoutes)
     // S3 service health check (no auth required — Cyberduck probes this)
     .head('/', () => new Response(null, { status: 200 }))
     // WebDAV PROPFIND fallback (Cyberduck tries this too)
@@ -42,6 +56,13 @@ const app = new Elysia()
     .use(bucketRoutes)
     .listen(env.port);
 
+startLifecycleWorker();
+startMultipartSweeper();
+startNotificationWorker();
+startEventLogPruner();
+startKeyRewrapper();
+startWebsiteServer();
+
 console.log(`
 ╔═══════════════════════════════════════════════════╗
 ║          S3-Compatible Server Started             ║
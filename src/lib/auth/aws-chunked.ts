@@ -0,0 +1,106 @@
+import { S3Errors, type S3Error } from '../errors';
+import type { ChunkVerifier } from './signature-v4';
+
+/** `x-amz-content-sha256` values announcing an aws-chunked body */
+const STREAMING_PAYLOADS: Record<string, { signed: boolean; trailer: boolean }> = {
+    'STREAMING-AWS4-HMAC-SHA256-PAYLOAD': { signed: true, trailer: false },
+    'STREAMING-AWS4-HMAC-SHA256-PAYLOAD-TRAILER': { signed: true, trailer: true },
+    'STREAMING-UNSIGNED-PAYLOAD-TRAILER': { signed: false, trailer: true },
+};
+
+const TRAILER_SIGNATURE = 'x-amz-trailer-signature';
+
+export interface DecodedBody {
+    body: Buffer;
+    /** Trailing headers sent after the last chunk, by lowercased name */
+    trailers: Record<string, string>;
+}
+
+export function isAwsChunked(contentSha256: string | undefined): boolean {
+    return contentSha256?.startsWith('STREAMING-') ?? false;
+}
+
+function malformedBody(): S3Error {
+    return S3Errors.InvalidRequest('The aws-chunked request body is not well-formed.');
+}
+
+/**
+ * Unwrap an aws-chunked body: `<hex size>[;chunk-signature=<sig>]\r\n<data>\r\n` chunks up to
+ * an empty one, then — for the trailer variants — `name:value` trailing headers and a blank
+ * line. Signed variants must carry a valid signature on every chunk, chained from the
+ * request's seed signature, and on the trailer. The trailers must be exactly those named in
+ * `x-amz-trailer`, and the decoded length must match `x-amz-decoded-content-length`.
+ */
+export function decodeAwsChunked(body: Buffer, headers: Record<string, string>, verifier: ChunkVerifier | null): DecodedBody | S3Error {
+    const contentSha256 = headers['x-amz-content-sha256']!;
+    const mode = STREAMING_PAYLOADS[contentSha256];
+    if (!mode) return S3Errors.NotImplemented(`x-amz-content-sha256 ${contentSha256} is not supported.`);
+    // Only a request signed with an Authorization header has a seed signature to chain from
+    if (mode.signed && !verifier) return S3Errors.SignatureDoesNotMatch();
+
+    let pos = 0;
+    const readLine = (): string | null => {
+        const end = body.indexOf('\r\n', pos);
+        if (end === -1) return null;
+        const line = body.toString('latin1', pos, end);
+        pos = end + 2;
+        return line;
+    };
+
+    const chunks: Buffer[] = [];
+    let previousSignature = verifier?.seedSignature ?? '';
+    while (true) {
+        const header = readLine();
+        if (header === null) return S3Errors.IncompleteBody();
+        const [sizeField = '', ...extensions] = header.split(';');
+        if (!/^[0-9a-fA-F]{1,16}$/.test(sizeField.trim())) return malformedBody();
+        const size = parseInt(sizeField, 16);
+        if (pos + size > body.length) return S3Errors.IncompleteBody();
+
+        const data = body.subarray(pos, pos + size);
+        pos += size;
+        if (mode.signed) {
+            const signature = extensions.map((e) => e.trim()).find((e) => e.startsWith('chunk-signature='))?.slice(16);
+            if (!signature || !verifier!.verifyChunk(previousSignature, data, signature)) return S3Errors.SignatureDoesNotMatch();
+            previousSignature = signature;
+        }
+        if (size === 0) break;
+
+        chunks.push(data);
+        if (body.toString('latin1', pos, pos + 2) !== '\r\n') return malformedBody();
+        pos += 2;
+    }
+
+    const trailers: Record<string, string> = {};
+    if (mode.trailer) {
+        let trailerSignature: string | undefined;
+        // The trailer signature covers the other trailing headers as `name:value\n` lines
+        let signedTrailer = '';
+        for (let line = readLine(); line; line = readLine()) {
+            const colon = line.indexOf(':');
+            if (colon <= 0) return S3Errors.MalformedTrailerError();
+            const name = line.slice(0, colon).trim().toLowerCase();
+            const value = line.slice(colon + 1).trim();
+            if (name === TRAILER_SIGNATURE) {
+                trailerSignature = value;
+                continue;
+            }
+            trailers[name] = value;
+            signedTrailer += `${name}:${value}\n`;
+        }
+
+        const declared = (headers['x-amz-trailer'] ?? '').split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+        const received = Object.keys(trailers);
+        if (received.length !== declared.length || !declared.every((name) => name in trailers)) {
+            return S3Errors.MalformedTrailerError();
+        }
+        if (mode.signed && (!trailerSignature || !verifier!.verifyTrailer(previousSignature, signedTrailer, trailerSignature))) {
+            return S3Errors.SignatureDoesNotMatch();
+        }
+    }
+
+    const decoded = Buffer.concat(chunks);
+    const decodedLength = headers['x-amz-decoded-content-length'];
+    if (decodedLength !== undefined && Number(decodedLength) !== decoded.length) return S3Errors.IncompleteBody();
+    return { body: decoded, trailers };
+}
@@ -2,6 +2,7 @@ import { createHmac, createHash, timingSafeEqual } from 'node:crypto';
 
 interface SignatureV4Params {
     method: string;
+    /** The path the client signed: without the bucket when it was addressed virtual-hosted-style */
     path: string;
     query: Record<string, string>;
     headers: Record<string, string>;
@@ -136,38 +137,36 @@ export function verifySignature(params: SignatureV4Params): boolean {
     const scope = `${date}/${region}/${service}/aws4_request`;
     const signingKey = getSigningKey(secretAccessKey, date, region, service);
 
-    // Collect payload hash candidates — intermediaries (Cloudflare, CDNs) may modify
-    // x-amz-content-sha256 between client signing and server receipt.
-    const receivedHash = headers['x-amz-content-sha256'] || sha256(body);
-    const EMPTY_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
-    const candidates = new Set([receivedHash, 'UNSIGNED-PAYLOAD', EMPTY_HASH]);
-
-    for (const candidateHash of candidates) {
-        // Rebuild canonical headers with this payload hash candidate
-        const canonicalHeaders = signedHeaders
-            .map((h) => {
-                const key = h.toLowerCase();
-                if (key === 'x-amz-content-sha256') return `${key}:${candidateHash}`;
-                return `${key}:${(headers[h] || headers[key] || '').trim()}`;
-            })
-            .join('\n');
-
-        const canonicalRequest = buildCanonicalRequest(
-            method.toUpperCase(), canonicalUri, canonicalQueryString,
-            canonicalHeaders, signedHeadersStr, candidateHash,
-        );
+    // The signature covers x-amz-content-sha256 as sent; whether the body matches it is
+    // checked separately (payloadMatchesContentSha256), once the signature is known good
+    const payloadHash = headers['x-amz-content-sha256'] || sha256(body);
+    const canonicalHeaders = signedHeaders
+        .map((h) => `${h.toLowerCase()}:${(headers[h] || headers[h.toLowerCase()] || '').trim()}`)
+        .join('\n');
 
-        const stringToSign = buildStringToSign(datetime, scope, sha256(canonicalRequest));
-        const expectedSignature = hmacSHA256(signingKey, stringToSign).toString('hex');
+    const canonicalRequest = buildCanonicalRequest(
+        method.toUpperCase(), canonicalUri, canonicalQueryString,
+        canonicalHeaders, signedHeadersStr, payloadHash,
+    );
 
-        if (safeCompare(expectedSignature, signature)) return true;
-    }
+    const stringToSign = buildStringToSign(datetime, scope, sha256(canonicalRequest));
+    const expectedSignature = hmacSHA256(signingKey, stringToSign).toString('hex');
+
+    return safeCompare(expectedSignature, signature);
+}
 
-    return false;
+/**
+ * Does the body hash to the signed `x-amz-content-sha256`? `UNSIGNED-PAYLOAD` and the
+ * `STREAMING-*` modes (whose chunks are checked as they are decoded) claim no hash.
+ */
+export function payloadMatchesContentSha256(contentSha256: string | undefined, body: Buffer | Uint8Array | string): boolean {
+    if (!contentSha256 || contentSha256 === 'UNSIGNED-PAYLOAD' || contentSha256.startsWith('STREAMING-')) return true;
+    return safeCompare(contentSha256.toLowerCase(), sha256(body));
 }
 
 export function verifyPresignedUrl(params: {
     method: string;
+    /** As in verifySignature: the signed path, without the bucket for virtual-hosted URLs */
     path: string;
     query: Record<string, string>;
     headers: Record<string, string>;
@@ -287,6 +286,59 @@ export function verifyPresignedUrlV2(params: {
     return safeCompare(expectedSignature, signature);
 }
 
+/** Checks the chunk and trailer signatures of an aws-chunked body, each chained from the signature before it */
+export interface ChunkVerifier {
+    /** The request's own signature, which the first chunk signature is chained from */
+    seedSignature: string;
+    verifyChunk(previousSignature: string, data: Uint8Array, signature: string): boolean;
+    /** `trailer` is the trailing headers as `name:value\n` lines */
+    verifyTrailer(previousSignature: string, trailer: string, signature: string): boolean;
+}
+
+/** The chunk verifier of a request signed with an Authorization header, or null if it is not one */
+export function createChunkVerifier(authHeader: string, datetime: string, secretAccessKey: string): ChunkVerifier | null {
+    const parsed = parseAuthorizationHeader(authHeader);
+    if (!parsed) return null;
+
+    const { date, region, service, signature: seedSignature } = parsed;
+    const scope = `${date}/${region}/${service}/aws4_request`;
+    const signingKey = getSigningKey(secretAccessKey, date, region, service);
+    const emptyHash = sha256('');
+    const sign = (algorithm: string, previousSignature: string, hash: string) => hmacSHA256(
+        signingKey, [algorithm, datetime, scope, previousSignature, hash].join('\n'),
+    ).toString('hex');
+
+    return {
+        seedSignature,
+        verifyChunk: (previousSignature, data, signature) => safeCompare(
+            sign('AWS4-HMAC-SHA256-PAYLOAD', previousSignature, `${emptyHash}\n${sha256(data)}`), signature,
+        ),
+        verifyTrailer: (previousSignature, trailer, signature) => safeCompare(
+            sign('AWS4-HMAC-SHA256-TRAILER', previousSignature, sha256(trailer)), signature,
+        ),
+    };
+}
+
+/**
+ * SigV4 signature of a POST Object policy: the base64 policy document itself is the string
+ * to sign, with the signing key of the `x-amz-credential` scope.
+ */
+export function signPostPolicy(policy: string, credential: string, secretAccessKey: string): string {
+    const [, dateStamp = '', region = '', service = ''] = credential.split('/');
+    const signingKey = getSigningKey(secretAccessKey, dateStamp, region, service);
+    return hmacSHA256(signingKey, policy).toString('hex');
+}
+
+export function verifyPostPolicySignature(params: {
+    policy: string;
+    credential: string;
+    signature: string;
+    secretAccessKey: string;
+}): boolean {
+    const { policy, credential, signature, secretAccessKey } = params;
+    return safeCompare(signPostPolicy(policy, credential, secretAccessKey), signature);
+}
+
 export function computeETag(data: Buffer | Uint8Array): string {
     return createHash('md5').update(data).digest('hex');
 }
@@ -0,0 +1,152 @@
+import { createHash } from 'node:crypto';
+import { S3Errors, type S3Error } from './errors';
+
+export type ChecksumAlgorithm = 'CRC32' | 'CRC32C' | 'SHA1' | 'SHA256';
+
+export const CHECKSUM_ALGORITHMS: readonly ChecksumAlgorithm[] = ['CRC32', 'CRC32C', 'SHA1', 'SHA256'];
+
+/** A base64 checksum; composite multipart checksums carry a `-<part count>` suffix */
+export interface Checksum {
+    algorithm: ChecksumAlgorithm;
+    value: string;
+}
+
+const DIGEST_LENGTH: Record<ChecksumAlgorithm, number> = { CRC32: 4, CRC32C: 4, SHA1: 20, SHA256: 32 };
+
+function crcTable(polynomial: number): Uint32Array {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? polynomial ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+}
+
+// Reflected polynomials of CRC-32 (ISO-HDLC) and CRC-32C (Castagnoli)
+const CRC32_TABLE = crcTable(0xedb88320);
+const CRC32C_TABLE = crcTable(0x82f63b78);
+
+function crc(table: Uint32Array, data: Uint8Array): Buffer {
+    let c = 0xffffffff;
+    for (let i = 0; i < data.length; i++) c = table[(c ^ data[i]!) & 0xff]! ^ (c >>> 8);
+    const digest = Buffer.alloc(4);
+    digest.writeUInt32BE((c ^ 0xffffffff) >>> 0);
+    return digest;
+}
+
+function digest(algorithm: ChecksumAlgorithm, data: Uint8Array): Buffer {
+    switch (algorithm) {
+        case 'CRC32': return crc(CRC32_TABLE, data);
+        case 'CRC32C': return crc(CRC32C_TABLE, data);
+        case 'SHA1': return createHash('sha1').update(data).digest();
+        case 'SHA256': return createHash('sha256').update(data).digest();
+    }
+}
+
+/** Raw big-endian CRC-32, as event-stream message framing uses */
+export function crc32(data: Uint8Array): Buffer {
+    return crc(CRC32_TABLE, data);
+}
+
+export function computeChecksum(algorithm: ChecksumAlgorithm, data: Uint8Array): string {
+    return digest(algorithm, data).toString('base64');
+}
+
+/** `x-amz-checksum-crc32` etc. */
+export function checksumHeaderName(algorithm: ChecksumAlgorithm): string {
+    return `x-amz-checksum-${algorithm.toLowerCase()}`;
+}
+
+/** `ChecksumCRC32` etc., as used in multipart XML */
+export function checksumElementName(algorithm: ChecksumAlgorithm): string {
+    return `Checksum${algorithm}`;
+}
+
+export function isCompositeChecksum(value: string): boolean {
+    return value.includes('-');
+}
+
+/** Response headers reporting a stored checksum and whether it covers the whole object or its parts */
+export function checksumHeaders(checksum: Checksum): Record<string, string> {
+    return {
+        [checksumHeaderName(checksum.algorithm)]: checksum.value,
+        'x-amz-checksum-type': isCompositeChecksum(checksum.value) ? 'COMPOSITE' : 'FULL_OBJECT',
+    };
+}
+
+/** Stored checksum columns of an object version or part, if it has one */
+export function storedChecksum(row: { checksumAlgorithm: string | null; checksumValue: string | null }): Checksum | null {
+    if (!row.checksumAlgorithm || !row.checksumValue) return null;
+    return { algorithm: row.checksumAlgorithm as ChecksumAlgorithm, value: row.checksumValue };
+}
+
+export function parseChecksumAlgorithm(value: string): ChecksumAlgorithm | null {
+    const algorithm = value.toUpperCase();
+    return (CHECKSUM_ALGORITHMS as readonly string[]).includes(algorithm) ? algorithm as ChecksumAlgorithm : null;
+}
+
+/**
+ * Read the checksum a client sent with a body: a single `x-amz-checksum-*` header, or one that
+ * `x-amz-trailer` names and an aws-chunked body sends in its `trailers`, optionally announced by
+ * `x-amz-sdk-checksum-algorithm`. Returns null when the request carries none.
+ */
+export function parseRequestChecksum(headers: Headers, trailers: Record<string, string> = {}): Checksum | S3Error | null {
+    const trailer = headers.get('x-amz-trailer')?.trim().toLowerCase();
+    const trailed = trailer ? CHECKSUM_ALGORITHMS.find((a) => checksumHeaderName(a) === trailer) : undefined;
+    if (trailer && !trailed) return S3Errors.InvalidRequest('The value specified in the x-amz-trailer header is not supported.');
+
+    const supplied = CHECKSUM_ALGORITHMS.filter((a) => headers.has(checksumHeaderName(a)) || a === trailed);
+    if (supplied.length > 1 || (trailed && headers.has(checksumHeaderName(trailed)))) {
+        return S3Errors.InvalidRequest('Expecting a single x-amz-checksum- header. Multiple checksum Types are not allowed.');
+    }
+
+    const sdkAlgorithm = headers.get('x-amz-sdk-checksum-algorithm');
+    if (sdkAlgorithm) {
+        const announced = parseChecksumAlgorithm(sdkAlgorithm);
+        if (!announced) return S3Errors.InvalidRequest('Value for x-amz-sdk-checksum-algorithm header is invalid.');
+        if (supplied.length === 0) {
+            return S3Errors.InvalidRequest('x-amz-sdk-checksum-algorithm specified, but no corresponding x-amz-checksum-* or x-amz-trailer headers were found.');
+        }
+        if (supplied[0] !== announced) {
+            return S3Errors.InvalidRequest(`Value for x-amz-sdk-checksum-algorithm header is invalid. Expected ${checksumHeaderName(supplied[0]!)}.`);
+        }
+    }
+
+    const algorithm = supplied[0];
+    if (!algorithm) return null;
+    const value = algorithm === trailed ? trailers[trailer!] : headers.get(checksumHeaderName(algorithm))!;
+    // A trailer only arrives with an aws-chunked body
+    if (value === undefined) return S3Errors.MalformedTrailerError();
+    if (Buffer.from(value, 'base64').length !== DIGEST_LENGTH[algorithm]) {
+        return S3Errors.InvalidRequest(`Value for ${checksumHeaderName(algorithm)} header is invalid.`);
+    }
+    return { algorithm, value };
+}
+
+/** BadDigest unless `data` hashes to the checksum the client sent */
+export function verifyChecksum(data: Uint8Array, checksum: Checksum): S3Error | null {
+    if (computeChecksum(checksum.algorithm, data) !== checksum.value) return S3Errors.BadDigest(checksum.algorithm);
+    return null;
+}
+
+/**
+ * Check a `Content-MD5` header (base64 of the 16-byte digest) against the body's MD5, given as
+ * the hex ETag already computed for it. InvalidDigest if the header is malformed.
+ */
+export function verifyContentMd5(headers: Headers, md5Hex: string): S3Error | null {
+    const contentMd5 = headers.get('content-md5');
+    if (contentMd5 === null) return null;
+    const md5 = Buffer.from(contentMd5, 'base64');
+    if (md5.length !== 16 || md5.toString('base64') !== contentMd5) return S3Errors.InvalidDigest();
+    return md5.toString('hex') === md5Hex ? null : S3Errors.BadDigest('Content-MD5');
+}
+
+/**
+ * Checksum of a completed multipart upload: the digest of the concatenated raw part
+ * checksums, suffixed with the part count — the same COMPOSITE value S3 reports.
+ */
+export function compositeChecksum(algorithm: ChecksumAlgorithm, partChecksums: string[]): string {
+    const joined = Buffer.concat(partChecksums.map((c) => Buffer.from(c, 'base64')));
+    return `${computeChecksum(algorithm, joined)}-${partChecksums.length}`;
+}
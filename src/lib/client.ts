@@ -0,0 +1,31 @@
+import { env } from '../config/env';
+
+// Socket addresses of requests the S3 auth middleware has seen, for code that only gets the Request
+const socketAddresses = new WeakMap<Request, string>();
+
+export function recordSocketAddress(request: Request, address: string | undefined): void {
+    if (address) socketAddresses.set(request, address);
+}
+
+/**
+ * The client's address. Forwarding headers are only believed when TRUST_PROXY says a
+ * reverse proxy sets them; otherwise any caller could pick its own `aws:SourceIp`.
+ * `X-Real-IP` is the proxy's own view, and the last `X-Forwarded-For` entry is the one it appended.
+ */
+export function clientIp(request: Request, socketAddress = socketAddresses.get(request)): string | undefined {
+    if (env.trustProxy) {
+        const forwarded = request.headers.get('x-real-ip')?.trim()
+            || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+        if (forwarded) return forwarded;
+    }
+    return socketAddress;
+}
+
+/** Whether the client connected over TLS — as the trusted proxy reports it, if any */
+export function isSecureTransport(request: Request): boolean {
+    if (env.trustProxy) {
+        const forwarded = request.headers.get('x-forwarded-proto')?.split(',')[0]?.trim().toLowerCase();
+        if (forwarded) return forwarded === 'https';
+    }
+    return new URL(request.url).protocol === 'https:';
+}
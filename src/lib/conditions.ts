@@ -0,0 +1,96 @@
+import { S3Errors, type S3Error } from './errors';
+
+/** Outcome of evaluating a request's preconditions against an object version */
+export type PreconditionResult = 'pass' | 'not-modified' | 'failed';
+
+interface Validators {
+    etag: string;
+    lastModified: Date;
+}
+
+/** Does an If-Match / If-None-Match list (`*`, `"a", W/"b"`) name this ETag? */
+function etagListMatches(header: string, etag: string): boolean {
+    if (header.trim() === '*') return true;
+    return header.split(',').some((candidate) => {
+        const tag = candidate.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+        return tag === etag;
+    });
+}
+
+/** HTTP dates carry whole seconds; unparseable dates are ignored, as RFC 7232 requires */
+function parseHttpDate(value: string | null): number | null {
+    if (!value) return null;
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+/**
+ * RFC 7232 §6 evaluation order: If-Match, else If-Unmodified-Since; then If-None-Match,
+ * else If-Modified-Since. `prefix` selects the `x-amz-copy-source-if-*` variants.
+ */
+function evaluate(headers: Headers, object: Validators, prefix = ''): PreconditionResult {
+    const lastModified = Math.floor(object.lastModified.getTime() / 1000);
+
+    const ifMatch = headers.get(`${prefix}if-match`);
+    if (ifMatch !== null) {
+        if (!etagListMatches(ifMatch, object.etag)) return 'failed';
+    } else {
+        const ifUnmodifiedSince = parseHttpDate(headers.get(`${prefix}if-unmodified-since`));
+        if (ifUnmodifiedSince !== null && lastModified > ifUnmodifiedSince) return 'failed';
+    }
+
+    const ifNoneMatch = headers.get(`${prefix}if-none-match`);
+    if (ifNoneMatch !== null) {
+        if (etagListMatches(ifNoneMatch, object.etag)) return 'not-modified';
+    } else {
+        const ifModifiedSince = parseHttpDate(headers.get(`${prefix}if-modified-since`));
+        if (ifModifiedSince !== null && lastModified <= ifModifiedSince) return 'not-modified';
+    }
+
+    return 'pass';
+}
+
+/** Preconditions of a GET or HEAD: 'not-modified' becomes a 304, 'failed' a 412 */
+export function evaluateReadConditions(headers: Headers, object: Validators): PreconditionResult {
+    return evaluate(headers, object);
+}
+
+/** The `x-amz-copy-source-if-*` headers of a copy — any unmet condition is a 412, never a 304 */
+export function checkCopySourceConditions(headers: Headers, source: Validators): S3Error | null {
+    return evaluate(headers, source, 'x-amz-copy-source-') === 'pass' ? null : S3Errors.PreconditionFailed();
+}
+
+/** `If-Match` / `If-None-Match: *` on a write */
+export interface WriteConditions {
+    ifMatch: string | null;
+    ifNoneMatch: boolean;
+}
+
+/** Write preconditions of a PutObject or CompleteMultipartUpload, or null when it has none */
+export function parseWriteConditions(headers: Headers): WriteConditions | S3Error | null {
+    const ifMatch = headers.get('if-match');
+    const ifNoneMatch = headers.get('if-none-match');
+    if (ifMatch === null && ifNoneMatch === null) return null;
+    if (ifNoneMatch !== null && ifNoneMatch.trim() !== '*') {
+        return S3Errors.InvalidArgument('If-None-Match only supports the value * on writes.');
+    }
+    return { ifMatch, ifNoneMatch: ifNoneMatch !== null };
+}
+
+/**
+ * Check write preconditions against the key's current version (a delete marker counts as
+ * no object): `If-None-Match: *` needs no object, `If-Match` an object with that ETag.
+ */
+export function checkWriteConditions(
+    conditions: WriteConditions,
+    current: { etag: string; isDeleteMarker: boolean } | undefined,
+    key: string,
+): S3Error | null {
+    const exists = current !== undefined && !current.isDeleteMarker;
+    if (conditions.ifNoneMatch && exists) return S3Errors.PreconditionFailed();
+    if (conditions.ifMatch !== null) {
+        if (!exists) return S3Errors.NoSuchKey(key);
+        if (!etagListMatches(conditions.ifMatch, current.etag)) return S3Errors.PreconditionFailed();
+    }
+    return null;
+}
@@ -0,0 +1,83 @@
+import { xml } from './xml/builder';
+
+export interface CorsRule {
+    id?: string;
+    allowedOrigins: string[];
+    allowedMethods: string[];
+    allowedHeaders: string[];
+    exposeHeaders: string[];
+    maxAgeSeconds?: number;
+}
+
+const CORS_METHODS = ['GET', 'PUT', 'POST', 'DELETE', 'HEAD'];
+const MAX_RULES = 100;
+
+/** Match against a pattern containing at most one `*` wildcard, as S3 allows */
+function wildcardMatch(pattern: string, value: string): boolean {
+    const star = pattern.indexOf('*');
+    if (star < 0) return pattern === value;
+    const head = pattern.slice(0, star);
+    const tail = pattern.slice(star + 1);
+    return value.length >= head.length + tail.length && value.startsWith(head) && value.endsWith(tail);
+}
+
+/** Parse a CORSConfiguration XML body. Returns null when the document is invalid. */
+export function parseCorsConfiguration(body: string): CorsRule[] | null {
+    let parsed: any;
+    try {
+        parsed = xml.parse(body);
+    } catch {
+        return null;
+    }
+
+    const ruleNodes = xml.asArray(parsed?.CORSConfiguration?.CORSRule);
+    if (ruleNodes.length === 0 || ruleNodes.length > MAX_RULES) return null;
+
+    const rules: CorsRule[] = [];
+    for (const node of ruleNodes) {
+        const rule: CorsRule = {
+            allowedOrigins: xml.asArray(node.AllowedOrigin).map(String),
+            allowedMethods: xml.asArray(node.AllowedMethod).map(String),
+            allowedHeaders: xml.asArray(node.AllowedHeader).map((h) => String(h).toLowerCase()),
+            exposeHeaders: xml.asArray(node.ExposeHeader).map(String),
+        };
+        if (node.ID) rule.id = String(node.ID);
+
+        if (rule.allowedOrigins.length === 0 || rule.allowedMethods.length === 0) return null;
+        if (rule.allowedMethods.some((m) => !CORS_METHODS.includes(m))) return null;
+        if (rule.allowedOrigins.some((o) => o.split('*').length > 2)) return null;
+
+        if (node.MaxAgeSeconds !== undefined) {
+            const maxAge = Number(node.MaxAgeSeconds);
+            if (!Number.isInteger(maxAge) || maxAge < 0) return null;
+            rule.maxAgeSeconds = maxAge;
+        }
+        rules.push(rule);
+    }
+
+    return rules;
+}
+
+/** First rule allowing this origin, method and set of request headers — S3 evaluates rules in order */
+export function findCorsRule(rules: CorsRule[], origin: string, method: string, requestHeaders: string[] = []): CorsRule | undefined {
+    return rules.find((rule) =>
+        rule.allowedOrigins.some((o) => wildcardMatch(o, origin))
+        && rule.allowedMethods.includes(method)
+        && requestHeaders.every((h) => rule.allowedHeaders.some((allowed) => wildcardMatch(allowed, h.toLowerCase()))),
+    );
+}
+
+/** Response headers granted by a matching rule */
+export function corsResponseHeaders(rule: CorsRule, origin: string): Record<string, string> {
+    const anyOrigin = rule.allowedOrigins.includes('*');
+    const headers: Record<string, string> = {
+        'access-control-allow-origin': anyOrigin ? '*' : origin,
+        'access-control-allow-methods': rule.allowedMethods.join(', '),
+        'vary': 'Origin, Access-Control-Request-Headers, Access-Control-Request-Method',
+    };
+    if (!anyOrigin) headers['access-control-allow-credentials'] = 'true';
+    if (rule.exposeHeaders.length > 0) {
+        headers['access-control-expose-headers'] = rule.exposeHeaders.join(', ');
+    }
+    return headers;
+}
@@ -0,0 +1,276 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'node:crypto';
+import type { buckets } from '../db/schema';
+import { env } from '../config/env';
+import { S3Errors, type S3Error } from './errors';
+import { xml } from './xml/builder';
+
+type BucketRecord = typeof buckets.$inferSelect;
+
+/** Key supplied by the client through the `x-amz-server-side-encryption-customer-*` headers */
+export interface CustomerKey {
+    algorithm: 'AES256';
+    key: Buffer;
+    keyMd5: string;
+}
+
+/** Bucket default encryption (PutBucketEncryption) */
+export interface BucketEncryption {
+    algorithm: 'AES256';
+}
+
+/** SSE-S3 columns of an object version or multipart upload */
+export interface ServerSideEncryption {
+    serverSideEncryption: string | null;
+    encryptedDataKey: string | null;
+    masterKeyId: string | null;
+}
+
+type WrappedDataKey = Pick<ServerSideEncryption, 'encryptedDataKey' | 'masterKeyId'>;
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const LENGTH_PREFIX = 4;
+const FRAME_HEADER_LENGTH = LENGTH_PREFIX + IV_LENGTH;
+// Plaintext per frame: well under the 4-byte length prefix, and the most a ranged read decrypts at a time
+const MAX_FRAME_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Parse the SSE-C headers of a request — or, with `copySource`, the
+ * `x-amz-copy-source-server-side-encryption-customer-*` headers naming the key of a copy source.
+ * Returns null when none of the headers are present.
+ */
+export function parseCustomerKey(headers: Headers, copySource = false): CustomerKey | S3Error | null {
+    const prefix = copySource ? 'x-amz-copy-source-server-side-encryption-customer-' : 'x-amz-server-side-encryption-customer-';
+    const algorithm = headers.get(`${prefix}algorithm`);
+    const encodedKey = headers.get(`${prefix}key`);
+    const keyMd5 = headers.get(`${prefix}key-md5`);
+    if (!algorithm && !encodedKey && !keyMd5) return null;
+
+    if (!algorithm || !encodedKey || !keyMd5) {
+        return S3Errors.InvalidArgument('Requests specifying Server Side Encryption with Customer provided keys must provide an appropriate secret key and key MD5.');
+    }
+    if (algorithm !== 'AES256') return S3Errors.InvalidArgument('The encryption algorithm specified is not supported.');
+
+    const key = Buffer.from(encodedKey, 'base64');
+    if (key.length !== KEY_LENGTH) return S3Errors.InvalidArgument('The secret key was invalid for the specified algorithm.');
+    if (createHash('md5').update(key).digest('base64') !== keyMd5) {
+        return S3Errors.InvalidArgument('The calculated MD5 hash of the key did not match the hash that was provided.');
+    }
+    return { algorithm, key, keyMd5 };
+}
+
+/**
+ * The only trace of a customer key kept on the server: an HMAC under the current master key,
+ * so the database alone cannot be used to test guesses at the key.
+ */
+export function hashCustomerKey(key: Buffer): string {
+    return createHmac('sha256', masterKeys().get(env.sse.masterKeyId)!).update(key).digest('base64');
+}
+
+/** Fingerprints made under retired master keys still match, as do plain SHA-256 ones from before HMACs */
+function customerKeyMatches(storedKeyHash: string, key: Buffer): boolean {
+    for (const masterKey of masterKeys().values()) {
+        if (createHmac('sha256', masterKey).update(key).digest('base64') === storedKeyHash) return true;
+    }
+    return createHash('sha256').update(key).digest('base64') === storedKeyHash;
+}
+
+/**
+ * Check the key supplied with a request against the one an object version (or multipart
+ * upload) was encrypted with. Unencrypted data must not be given a key either.
+ */
+export function checkCustomerKey(storedKeyHash: string | null, supplied: CustomerKey | null): S3Error | null {
+    if (!storedKeyHash) {
+        return supplied ? S3Errors.InvalidRequest('The encryption parameters are not applicable to this object.') : null;
+    }
+    if (!supplied) {
+        return S3Errors.InvalidRequest('The object was stored using a form of Server Side Encryption. The correct parameters must be provided to retrieve the object.');
+    }
+    if (!customerKeyMatches(storedKeyHash, supplied.key)) return S3Errors.AccessDenied();
+    return null;
+}
+
+export function customerKeyHeaders(algorithm: string, keyMd5: string): Record<string, string> {
+    return {
+        'x-amz-server-side-encryption-customer-algorithm': algorithm,
+        'x-amz-server-side-encryption-customer-key-md5': keyMd5,
+    };
+}
+
+/**
+ * AES-256-GCM encrypt a buffer into self-delimiting frames of up to `MAX_FRAME_SIZE` bytes each:
+ * `[plaintext length (4)][IV (12)][ciphertext][auth tag (16)]`. Frames can be
+ * concatenated, which is how encrypted multipart parts are assembled.
+ */
+export function encryptObjectData(data: Buffer | Uint8Array, key: Buffer): Buffer {
+    const frames: Buffer[] = [];
+    let offset = 0;
+    do {
+        const chunk = data.subarray(offset, offset + MAX_FRAME_SIZE);
+        const iv = randomBytes(IV_LENGTH);
+        const cipher = createCipheriv('aes-256-gcm', key, iv);
+        const ciphertext = Buffer.concat([cipher.update(chunk), cipher.final()]);
+
+        const length = Buffer.alloc(LENGTH_PREFIX);
+        length.writeUInt32BE(chunk.length);
+        frames.push(length, iv, ciphertext, cipher.getAuthTag());
+        offset += chunk.length;
+    } while (offset < data.length);
+    return Buffer.concat(frames);
+}
+
+/** Plaintext length of the frame starting with `header`, and how many bytes the whole frame takes */
+function frameSize(header: Buffer): { plaintext: number; total: number } {
+    const plaintext = header.readUInt32BE(0);
+    return { plaintext, total: FRAME_HEADER_LENGTH + plaintext + TAG_LENGTH };
+}
+
+/** Decrypt a sequence of frames written by `encryptObjectData`. Throws if any frame fails authentication. */
+export function decryptObjectData(data: Buffer, key: Buffer): Buffer {
+    const chunks: Buffer[] = [];
+    let offset = 0;
+    while (offset < data.length) {
+        const { total } = frameSize(data.subarray(offset));
+        chunks.push(decryptFrame(data.subarray(offset, offset + total), key));
+        offset += total;
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Decrypt plaintext bytes `start`–`end` (inclusive) of encrypted data read through `read`,
+ * which returns up to `length` bytes at `position`. Only the frames overlapping the range
+ * are read whole and decrypted; the others are skipped by their length prefix.
+ */
+export async function decryptObjectRange(
+    read: (position: number, length: number) => Promise<Buffer>,
+    key: Buffer,
+    range: { start: number; end: number },
+): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let position = 0;
+    let plaintextOffset = 0;
+    while (plaintextOffset <= range.end) {
+        const header = await read(position, LENGTH_PREFIX);
+        if (header.length < LENGTH_PREFIX) break;
+        const { plaintext, total } = frameSize(header);
+        if (plaintextOffset + plaintext > range.start) {
+            const data = decryptFrame(await read(position, total), key);
+            chunks.push(data.subarray(Math.max(range.start - plaintextOffset, 0), range.end + 1 - plaintextOffset));
+        }
+        position += total;
+        plaintextOffset += plaintext;
+    }
+    return Buffer.concat(chunks);
+}
+
+function decryptFrame(frame: Buffer, key: Buffer): Buffer {
+    const tagStart = frame.length - TAG_LENGTH;
+    const decipher = createDecipheriv('aes-256-gcm', key, frame.subarray(LENGTH_PREFIX, FRAME_HEADER_LENGTH));
+    decipher.setAuthTag(frame.subarray(tagStart));
+    return Buffer.concat([decipher.update(frame.subarray(FRAME_HEADER_LENGTH, tagStart)), decipher.final()]);
+}
+
+let keyring: Map<string, Buffer> | null = null;
+
+function decodeMasterKey(id: string, encoded: string): Buffer {
+    const key = Buffer.from(encoded, 'base64');
+    if (key.length !== KEY_LENGTH) throw new Error(`SSE master key "${id}" must be 32 bytes, base64-encoded`);
+    return key;
+}
+
+/** Current and retired master keys by ID, parsed from the environment on first use */
+function masterKeys(): Map<string, Buffer> {
+    if (keyring) return keyring;
+    keyring = new Map();
+    for (const entry of env.sse.retiredMasterKeys.split(',').map((e) => e.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        if (separator <= 0) throw new Error('SSE_RETIRED_MASTER_KEYS entries must look like id:base64key');
+        keyring.set(entry.slice(0, separator), decodeMasterKey(entry.slice(0, separator), entry.slice(separator + 1)));
+    }
+    if (env.sse.masterKey) keyring.set(env.sse.masterKeyId, decodeMasterKey(env.sse.masterKeyId, env.sse.masterKey));
+    return keyring;
+}
+
+export function isSseS3Available(): boolean {
+    return env.sse.masterKey !== '';
+}
+
+/** Parse a ServerSideEncryptionConfiguration XML body. Only AES256 is supported; anything else is null. */
+export function parseBucketEncryption(body: string): BucketEncryption | null {
+    let parsed: any;
+    try {
+        parsed = xml.parse(body);
+    } catch {
+        return null;
+    }
+
+    const rules = xml.asArray(parsed?.ServerSideEncryptionConfiguration?.Rule);
+    if (rules.length !== 1) return null;
+    if (rules[0]?.ApplyServerSideEncryptionByDefault?.SSEAlgorithm !== 'AES256') return null;
+    return { algorithm: 'AES256' };
+}
+
+export function getBucketEncryption(bucket: BucketRecord): BucketEncryption | null {
+    if (!bucket.encryption) return null;
+    try {
+        return JSON.parse(bucket.encryption);
+    } catch {
+        return null;
+    }
+}
+
+function wrapDataKey(dataKey: Buffer): WrappedDataKey {
+    const masterKeyId = env.sse.masterKeyId;
+    return {
+        encryptedDataKey: encryptObjectData(dataKey, masterKeys().get(masterKeyId)!).toString('base64'),
+        masterKeyId,
+    };
+}
+
+export function unwrapDataKey(wrapped: WrappedDataKey): Buffer {
+    const masterKey = masterKeys().get(wrapped.masterKeyId ?? '');
+    if (!masterKey) throw new Error(`SSE master key "${wrapped.masterKeyId}" is not configured`);
+    return decryptObjectData(Buffer.from(wrapped.encryptedDataKey ?? '', 'base64'), masterKey);
+}
+
+/** Wrap an existing data key with the current master key — the object data itself is untouched */
+export function rewrapDataKey(wrapped: WrappedDataKey): WrappedDataKey {
+    return wrapDataKey(unwrapDataKey(wrapped));
+}
+
+/**
+ * Work out SSE-S3 for a new object: the `x-amz-server-side-encryption` header wins, then
+ * the bucket default, then SSE_ENCRYPT_ALL. SSE-C writes never get a server-managed key.
+ * Returns the columns to store and, when encrypting, the fresh data key.
+ */
+export function resolveServerSideEncryption(
+    bucket: BucketRecord,
+    headers: Headers,
+    customerKey: CustomerKey | null,
+): { columns: ServerSideEncryption; dataKey?: Buffer } | S3Error {
+    const none: ServerSideEncryption = { serverSideEncryption: null, encryptedDataKey: null, masterKeyId: null };
+    const requested = headers.get('x-amz-server-side-encryption');
+    if (requested && requested !== 'AES256') return S3Errors.InvalidArgument('The encryption method specified is not supported');
+
+    if (customerKey) {
+        if (requested) {
+            return S3Errors.InvalidArgument('Server Side Encryption with Customer provided key is incompatible with the encryption method specified');
+        }
+        // The master key fingerprints the customer key
+        if (!isSseS3Available()) return S3Errors.InvalidRequest('Server-side encryption is not configured on this server.');
+        return { columns: none };
+    }
+    if (!requested && !getBucketEncryption(bucket) && !env.sse.encryptAll) return { columns: none };
+    if (!isSseS3Available()) return S3Errors.InvalidRequest('Server-side encryption is not configured on this server.');
+
+    const dataKey = randomBytes(KEY_LENGTH);
+    return { columns: { serverSideEncryption: 'AES256', ...wrapDataKey(dataKey) }, dataKey };
+}
+
+/** Key that decrypts an object version: the caller's SSE-C key, or its unwrapped SSE-S3 data key */
+export function objectEncryptionKey(wrapped: WrappedDataKey, customerKey: CustomerKey | null): Buffer | undefined {
+    if (customerKey) return customerKey.key;
+    return wrapped.encryptedDataKey ? unwrapDataKey(wrapped) : undefined;
+}
@@ -25,6 +25,12 @@ export const S3Errors = {
         message: `The requested bucket name is not available: ${bucket}`,
     }),
 
+    InvalidBucketState: (message: string): S3Error => ({
+        statusCode: 409,
+        code: 'InvalidBucketState',
+        message,
+    }),
+
     BucketNotEmpty: (bucket: string): S3Error => ({
         statusCode: 409,
         code: 'BucketNotEmpty',
@@ -37,12 +43,71 @@ export const S3Errors = {
         message: `The specified bucket is not valid: ${bucket}`,
     }),
 
+    NoSuchVersion: (versionId: string): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchVersion',
+        message: `The specified version does not exist: ${versionId}`,
+    }),
+
+    NoSuchLifecycleConfiguration: (bucket: string): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchLifecycleConfiguration',
+        message: `The lifecycle configuration does not exist: ${bucket}`,
+    }),
+
+    NoSuchCORSConfiguration: (bucket: string): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchCORSConfiguration',
+        message: `The CORS configuration does not exist: ${bucket}`,
+    }),
+
+    NoSuchBucketPolicy: (bucket: string): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchBucketPolicy',
+        message: `The bucket policy does not exist: ${bucket}`,
+    }),
+
+    ObjectLockConfigurationNotFound: (): S3Error => ({
+        statusCode: 404,
+        code: 'ObjectLockConfigurationNotFoundError',
+        message: 'Object Lock configuration does not exist for this bucket',
+    }),
+
+    NoSuchObjectLockConfiguration: (): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchObjectLockConfiguration',
+        message: 'The specified object does not have a ObjectLock configuration',
+    }),
+
+    NoSuchWebsiteConfiguration: (bucket: string): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchWebsiteConfiguration',
+        message: `The specified bucket does not have a website configuration: ${bucket}`,
+    }),
+
+    ServerSideEncryptionConfigurationNotFound: (bucket: string): S3Error => ({
+        statusCode: 404,
+        code: 'ServerSideEncryptionConfigurationNotFoundError',
+        message: `The server side encryption configuration was not found: ${bucket}`,
+    }),
+
+    NoSuchTagSet: (): S3Error => ({
+        statusCode: 404,
+        code: 'NoSuchTagSet',
+        message: 'The TagSet does not exist',
+    }),
+
     NoSuchUpload: (uploadId: string): S3Error => ({
         statusCode: 404,
         code: 'NoSuchUpload',
         message: `The specified upload does not exist: ${uploadId}`,
     }),
 
+    InvalidPart: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidPart',
+        message,
+    }),
 
     InvalidPartOrder: (): S3Error => ({
         statusCode: 400,
@@ -56,6 +121,12 @@ export const S3Errors = {
         message: 'Access Denied',
     }),
 
+    CORSForbidden: (): S3Error => ({
+        statusCode: 403,
+        code: 'AccessForbidden',
+        message: 'CORSResponse: This CORS request is not allowed. This is usually because the evaluation of Origin, request method / Access-Control-Request-Method or Access-Control-Request-Headers are not whitelisted by the resource\'s CORS spec.',
+    }),
+
     SignatureDoesNotMatch: (): S3Error => ({
         statusCode: 403,
         code: 'SignatureDoesNotMatch',
@@ -74,6 +145,36 @@ export const S3Errors = {
         message: msg,
     }),
 
+    InvalidRequest: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidRequest',
+        message,
+    }),
+
+    InvalidTag: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidTag',
+        message,
+    }),
+
+    MalformedPolicy: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'MalformedPolicy',
+        message,
+    }),
+
+    ObjectLocked: (): S3Error => ({
+        statusCode: 403,
+        code: 'AccessDenied',
+        message: 'Access Denied because object protected by object lock.',
+    }),
+
+    MalformedXML: (): S3Error => ({
+        statusCode: 400,
+        code: 'MalformedXML',
+        message: 'The XML you provided was not well-formed or did not validate against our published schema.',
+    }),
+
     InternalError: (msg?: string): S3Error => ({
         statusCode: 500,
         code: 'InternalError',
@@ -86,12 +187,138 @@ export const S3Errors = {
         message: 'The requested range is not satisfiable.',
     }),
 
+    PreconditionFailed: (): S3Error => ({
+        statusCode: 412,
+        code: 'PreconditionFailed',
+        message: 'At least one of the pre-conditions you specified did not hold',
+    }),
+
+    ConditionalRequestConflict: (): S3Error => ({
+        statusCode: 409,
+        code: 'ConditionalRequestConflict',
+        message: 'A conflicting operation occurred. Retry the request.',
+    }),
+
+    BadDigest: (digest: string): S3Error => ({
+        statusCode: 400,
+        code: 'BadDigest',
+        message: `The ${digest} you specified did not match the calculated checksum.`,
+    }),
+
+    XAmzContentSHA256Mismatch: (): S3Error => ({
+        statusCode: 400,
+        code: 'XAmzContentSHA256Mismatch',
+        message: 'The provided \'x-amz-content-sha256\' header does not match what was computed.',
+    }),
+
+    InvalidDigest: (): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidDigest',
+        message: 'The Content-MD5 you specified is not valid.',
+    }),
+
+    IncompleteBody: (): S3Error => ({
+        statusCode: 400,
+        code: 'IncompleteBody',
+        message: 'You did not provide the number of bytes specified by the Content-Length HTTP header.',
+    }),
+
+    MalformedTrailerError: (): S3Error => ({
+        statusCode: 400,
+        code: 'MalformedTrailerError',
+        message: 'The request contained trailing data that was not well-formed or did not conform to our published schema.',
+    }),
+
+    NotImplemented: (message: string): S3Error => ({
+        statusCode: 501,
+        code: 'NotImplemented',
+        message,
+    }),
+
     EntityTooLarge: (): S3Error => ({
         statusCode: 400,
         code: 'EntityTooLarge',
         message: 'Your proposed upload exceeds the maximum allowed object size.',
     }),
 
+    EntityTooSmall: (): S3Error => ({
+        statusCode: 400,
+        code: 'EntityTooSmall',
+        message: 'Your proposed upload is smaller than the minimum allowed object size.',
+    }),
+
+    MalformedPOSTRequest: (): S3Error => ({
+        statusCode: 400,
+        code: 'MalformedPOSTRequest',
+        message: 'The body of your POST request is not well-formed multipart/form-data.',
+    }),
+
+    IncorrectNumberOfFilesInPostRequest: (): S3Error => ({
+        statusCode: 400,
+        code: 'IncorrectNumberOfFilesInPostRequest',
+        message: 'POST requires exactly one file upload per request.',
+    }),
+
+    InvalidPolicyDocument: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidPolicyDocument',
+        message,
+    }),
+
+    PostPolicyViolation: (message: string): S3Error => ({
+        statusCode: 403,
+        code: 'AccessDenied',
+        message: `Invalid according to Policy: ${message}`,
+    }),
+
+    InvalidExpressionType: (): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidExpressionType',
+        message: 'The ExpressionType is invalid. Only SQL expressions are supported.',
+    }),
+
+    ParseUnexpectedToken: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'ParseUnexpectedToken',
+        message,
+    }),
+
+    UnsupportedSqlStructure: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'UnsupportedSqlStructure',
+        message,
+    }),
+
+    UnsupportedFunction: (name: string): S3Error => ({
+        statusCode: 400,
+        code: 'UnsupportedFunction',
+        message: `Encountered an unsupported SQL function: ${name}`,
+    }),
+
+    InvalidCompressionFormat: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'InvalidCompressionFormat',
+        message,
+    }),
+
+    CastFailed: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'CastFailed',
+        message,
+    }),
+
+    CSVParsingError: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'CSVParsingError',
+        message,
+    }),
+
+    JSONParsingError: (message: string): S3Error => ({
+        statusCode: 400,
+        code: 'JSONParsingError',
+        message,
+    }),
+
     MethodNotAllowed: (method: string): S3Error => ({
         statusCode: 405,
         code: 'MethodNotAllowed',
@@ -0,0 +1,153 @@
+import { and, eq, gt, lt, asc, max } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { bucketEvents } from '../db/schema';
+import { env } from '../config/env';
+
+/** Event name and key filters shared by webhook targets and feed listeners */
+export interface EventFilter {
+    events: string[];
+    prefix?: string;
+    suffix?: string;
+}
+
+export interface FeedEvent {
+    id: number;
+    eventName: string;
+    record: object;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** `s3:ObjectCreated:*` covers every `s3:ObjectCreated:` event */
+export function matchesEventFilter(filter: EventFilter, eventName: string, key: string): boolean {
+    const eventMatches = filter.events.some((e) => e === eventName || (e.endsWith(':*') && eventName.startsWith(e.slice(0, -1))));
+    if (!eventMatches) return false;
+    if (filter.prefix && !key.startsWith(filter.prefix)) return false;
+    if (filter.suffix && !key.endsWith(filter.suffix)) return false;
+    return true;
+}
+
+// Listeners parked in a long-poll or SSE stream, woken when their bucket logs an event
+const waiters = new Map<string, Set<() => void>>();
+
+function wakeWaiters(bucketName: string): void {
+    const pending = waiters.get(bucketName);
+    if (!pending) return;
+    waiters.delete(bucketName);
+    for (const wake of pending) wake();
+}
+
+/** A listener registered before the log is read, so an event logged during the read still wakes it */
+export interface BucketEventListener {
+    /** Resolve true once an event was logged since the listener was created — at once if one already was — or false on timeout or abort */
+    wait(timeoutMs: number, signal?: AbortSignal): Promise<boolean>;
+    /** Stop listening, e.g. because the read already returned events; safe to call more than once */
+    cancel(): void;
+}
+
+export function listenForBucketEvent(bucketName: string): BucketEventListener {
+    let logged = false;
+    let wake: (() => void) | null = null;
+    const onEvent = () => {
+        logged = true;
+        wake?.();
+    };
+    const cancel = () => {
+        const pending = waiters.get(bucketName);
+        pending?.delete(onEvent);
+        if (pending?.size === 0) waiters.delete(bucketName);
+    };
+
+    const pending = waiters.get(bucketName) || new Set();
+    pending.add(onEvent);
+    waiters.set(bucketName, pending);
+
+    return {
+        cancel,
+        wait: (timeoutMs, signal) => new Promise((resolve) => {
+            if (logged || signal?.aborted) {
+                cancel();
+                return resolve(logged);
+            }
+
+            const finish = (woken: boolean) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                wake = null;
+                cancel();
+                resolve(woken);
+            };
+            const onAbort = () => finish(false);
+            const timer = setTimeout(onAbort, timeoutMs);
+            signal?.addEventListener('abort', onAbort);
+            wake = () => finish(true);
+        }),
+    };
+}
+
+export async function appendBucketEvent(bucketName: string, eventName: string, key: string, record: object): Promise<void> {
+    await db.insert(bucketEvents).values({
+        bucketName,
+        eventName,
+        objectKey: key,
+        record: JSON.stringify(record),
+    });
+    wakeWaiters(bucketName);
+}
+
+/** Cursor pointing at the newest logged event, so a reader starting there sees only later events */
+export async function latestEventCursor(bucketName: string): Promise<number> {
+    const [row] = await db.select({ id: max(bucketEvents.id) }).from(bucketEvents)
+        .where(eq(bucketEvents.bucketName, bucketName));
+    return row?.id ?? 0;
+}
+
+/**
+ * Events logged after `cursor` that match the filter. The returned cursor moves past
+ * every row scanned — including non-matching ones — so readers never rescan them.
+ */
+export async function readBucketEvents(
+    bucketName: string,
+    cursor: number,
+    filter: EventFilter,
+    limit: number,
+): Promise<{ events: FeedEvent[]; cursor: number; hasMore: boolean }> {
+    const rows = await db.select().from(bucketEvents)
+        .where(and(eq(bucketEvents.bucketName, bucketName), gt(bucketEvents.id, cursor)))
+        .orderBy(asc(bucketEvents.id))
+        .limit(limit);
+
+    const events: FeedEvent[] = [];
+    for (const row of rows) {
+        cursor = row.id;
+        if (matchesEventFilter(filter, row.eventName, row.objectKey)) {
+            events.push({ id: row.id, eventName: row.eventName, record: JSON.parse(row.record) });
+        }
+    }
+    return { events, cursor, hasMore: rows.length === limit };
+}
+
+/** Drop events older than EVENT_LOG_RETENTION_HOURS */
+export async function pruneEventLog(now = new Date()): Promise<void> {
+    const cutoff = new Date(now.getTime() - env.eventFeed.retentionHours * 60 * 60 * 1000);
+    await db.delete(bucketEvents).where(lt(bucketEvents.createdAt, cutoff));
+}
+
+let running = false;
+
+/** Hourly pruning of the event log (EVENT_LOG_RETENTION_HOURS=0 keeps every event) */
+export function startEventLogPruner(): void {
+    if (env.eventFeed.retentionHours <= 0) return;
+
+    setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            await pruneEventLog();
+        } catch (err) {
+            console.error('[EventFeed] Prune failed:', err);
+        } finally {
+            running = false;
+        }
+    }, PRUNE_INTERVAL_MS);
+}
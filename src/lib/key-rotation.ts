@@ -0,0 +1,105 @@
+import { and, asc, count, eq, gt, isNotNull, ne } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { objects, multipartUploads } from '../db/schema';
+import { env } from '../config/env';
+import { isSseS3Available, rewrapDataKey } from './encryption';
+
+const BATCH_SIZE = 500;
+
+export interface RewrapReport {
+    objects: number;
+    uploads: number;
+    /** Rows whose master key isn't configured any more — they stay as they are */
+    failed: number;
+}
+
+/**
+ * Re-wrap every SSE-S3 data key still wrapped by a retired master key with the current
+ * one. Only the wrapped keys change; object data on disk is never rewritten, so once this
+ * reports nothing left the retired key can be dropped from SSE_RETIRED_MASTER_KEYS.
+ */
+export async function rewrapDataKeys(): Promise<RewrapReport> {
+    const report: RewrapReport = { objects: 0, uploads: 0, failed: 0 };
+    if (!isSseS3Available()) return report;
+    const current = env.sse.masterKeyId;
+
+    let lastId = 0;
+    while (true) {
+        const batch = await db.select({
+            id: objects.id,
+            encryptedDataKey: objects.encryptedDataKey,
+            masterKeyId: objects.masterKeyId,
+            lastModified: objects.lastModified,
+        }).from(objects)
+            .where(and(isNotNull(objects.masterKeyId), ne(objects.masterKeyId, current), gt(objects.id, lastId)))
+            .orderBy(asc(objects.id))
+            .limit(BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        for (const row of batch) {
+            lastId = row.id;
+            try {
+                // last_modified is ON UPDATE — keep the object's own timestamp
+                await db.update(objects)
+                    .set({ ...rewrapDataKey(row), lastModified: row.lastModified })
+                    .where(eq(objects.id, row.id));
+                report.objects++;
+            } catch (err) {
+                console.error(`[KeyRotation] Cannot re-wrap object ${row.id} (master key "${row.masterKeyId}"):`, err);
+                report.failed++;
+            }
+        }
+    }
+
+    const uploads = await db.select({
+        uploadId: multipartUploads.uploadId,
+        encryptedDataKey: multipartUploads.encryptedDataKey,
+        masterKeyId: multipartUploads.masterKeyId,
+    }).from(multipartUploads)
+        .where(and(isNotNull(multipartUploads.masterKeyId), ne(multipartUploads.masterKeyId, current)));
+
+    for (const upload of uploads) {
+        try {
+            await db.update(multipartUploads)
+                .set(rewrapDataKey(upload))
+                .where(eq(multipartUploads.uploadId, upload.uploadId));
+            report.uploads++;
+        } catch (err) {
+            console.error(`[KeyRotation] Cannot re-wrap upload ${upload.uploadId} (master key "${upload.masterKeyId}"):`, err);
+            report.failed++;
+        }
+    }
+
+    return report;
+}
+
+/** Number of SSE-S3 object versions per master key ID */
+export async function countObjectsByMasterKey(): Promise<{ masterKeyId: string; count: number }[]> {
+    const rows = await db.select({ masterKeyId: objects.masterKeyId, count: count() })
+        .from(objects)
+        .where(isNotNull(objects.masterKeyId))
+        .groupBy(objects.masterKeyId);
+    return rows.map((r) => ({ masterKeyId: r.masterKeyId!, count: r.count }));
+}
+
+let running = false;
+
+/** Periodically move data keys off retired master keys (SSE_REWRAP_INTERVAL_MINUTES=0 disables) */
+export function startKeyRewrapper(): void {
+    if (!isSseS3Available() || env.sse.rewrapIntervalMinutes <= 0) return;
+
+    setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            const report = await rewrapDataKeys();
+            if (report.objects > 0 || report.uploads > 0 || report.failed > 0) {
+                console.log(`[KeyRotation] Re-wrapped ${report.objects} object key(s) and ${report.uploads} upload key(s), ${report.failed} failed`);
+            }
+        } catch (err) {
+            console.error('[KeyRotation] Re-wrap failed:', err);
+        } finally {
+            running = false;
+        }
+    }, env.sse.rewrapIntervalMinutes * 60 * 1000);
+}
@@ -0,0 +1,191 @@
+import { eq, and, like, lt, isNotNull, exists } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { buckets, objects, objectTags, multipartUploads } from '../db/schema';
+import { env } from '../config/env';
+import { abortStaleMultipartUpload } from './multipart-gc';
+import { deleteCurrentVersion, findObjectVersion, withKeyWriteLock } from './versioning';
+import { getObjectTagsBatch } from './tagging';
+import { xml } from './xml/builder';
+
+export interface LifecycleRule {
+    id: string;
+    status: 'Enabled' | 'Disabled';
+    prefix: string;
+    tags: { key: string; value: string }[];
+    expirationDays?: number;
+    expirationDate?: string;
+    abortIncompleteMultipartUploadDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RULES = 1000;
+// Objects expired per rule per run — the rest are picked up on the next run
+const BATCH_SIZE = 1000;
+
+function parsePositiveInt(value: unknown): number | null {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+/** Parse a LifecycleConfiguration XML body. Returns null when the document is invalid. */
+export function parseLifecycleConfiguration(body: string): LifecycleRule[] | null {
+    let parsed: any;
+    try {
+        parsed = xml.parse(body);
+    } catch {
+        return null;
+    }
+
+    const ruleNodes = xml.asArray(parsed?.LifecycleConfiguration?.Rule);
+    if (ruleNodes.length === 0 || ruleNodes.length > MAX_RULES) return null;
+
+    const rules: LifecycleRule[] = [];
+    for (const [index, node] of ruleNodes.entries()) {
+        if (node.Status !== 'Enabled' && node.Status !== 'Disabled') return null;
+
+        const filter = node.Filter || {};
+        const andNode = filter.And || {};
+        const rule: LifecycleRule = {
+            id: String(node.ID || `rule-${index + 1}`),
+            status: node.Status,
+            prefix: String(andNode.Prefix ?? filter.Prefix ?? node.Prefix ?? ''),
+            tags: xml.asArray(andNode.Tag ?? filter.Tag).map((t) => ({
+                key: String(t.Key ?? ''),
+                value: String(t.Value ?? ''),
+            })),
+        };
+
+        if (node.Expiration) {
+            if (node.Expiration.Days !== undefined) {
+                const days = parsePositiveInt(node.Expiration.Days);
+                if (!days) return null;
+                rule.expirationDays = days;
+            } else if (node.Expiration.Date !== undefined) {
+                const date = new Date(String(node.Expiration.Date));
+                if (isNaN(date.getTime())) return null;
+                rule.expirationDate = date.toISOString();
+            } else {
+                return null;
+            }
+        }
+
+        if (node.AbortIncompleteMultipartUpload) {
+            // Uploads carry no tags, so AWS rejects this action on tag-filtered rules
+            if (rule.tags.length > 0) return null;
+            const days = parsePositiveInt(node.AbortIncompleteMultipartUpload.DaysAfterInitiation);
+            if (!days) return null;
+            rule.abortIncompleteMultipartUploadDays = days;
+        }
+
+        if (!rule.expirationDays && !rule.expirationDate && !rule.abortIncompleteMultipartUploadDays) {
+            return null;
+        }
+        rules.push(rule);
+    }
+
+    return rules;
+}
+
+export function matchesLifecycleFilter(rule: LifecycleRule, key: string, tags: Record<string, string>): boolean {
+    if (!key.startsWith(rule.prefix)) return false;
+    return rule.tags.every((t) => tags[t.key] === t.value);
+}
+
+/** Run every enabled lifecycle rule once across all buckets */
+export async function applyLifecycleRules(now = new Date()): Promise<{ expiredObjects: number; abortedUploads: number }> {
+    let expiredObjects = 0;
+    let abortedUploads = 0;
+
+    const configured = await db.select().from(buckets).where(isNotNull(buckets.lifecycle));
+
+    for (const bucket of configured) {
+        let rules: LifecycleRule[];
+        try {
+            rules = JSON.parse(bucket.lifecycle!);
+        } catch {
+            continue;
+        }
+
+        for (const rule of rules) {
+            if (rule.status !== 'Enabled') continue;
+
+            const expireBefore = rule.expirationDays
+                ? new Date(now.getTime() - rule.expirationDays * DAY_MS)
+                : rule.expirationDate && new Date(rule.expirationDate) <= now ? now : null;
+
+            if (expireBefore) {
+                const candidates = await db.select({ id: objects.id, key: objects.key }).from(objects)
+                    .where(and(
+                        eq(objects.bucketId, bucket.id),
+                        eq(objects.isLatest, true),
+                        eq(objects.isDeleteMarker, false),
+                        like(objects.key, `${rule.prefix}%`),
+                        lt(objects.lastModified, expireBefore),
+                        ...rule.tags.map((t) => exists(
+                            db.select({ id: objectTags.id }).from(objectTags).where(and(
+                                eq(objectTags.objectId, objects.id),
+                                eq(objectTags.tagKey, t.key),
+                                eq(objectTags.tagValue, t.value),
+                            )),
+                        )),
+                    ))
+                    .limit(BATCH_SIZE);
+
+                // LIKE and the collation are looser than S3 matching — re-check prefix and tags exactly
+                const tagsByObject = rule.tags.length > 0
+                    ? await getObjectTagsBatch(candidates.map((c) => c.id))
+                    : new Map<number, Record<string, string>>();
+
+                for (const obj of candidates) {
+                    if (!matchesLifecycleFilter(rule, obj.key, tagsByObject.get(obj.id) || {})) continue;
+                    // Only expire the version that was judged — a write since then has replaced it
+                    const expired = await withKeyWriteLock(bucket.id, obj.key, async () => {
+                        if ((await findObjectVersion(bucket.id, obj.key))?.id !== obj.id) return false;
+                        await deleteCurrentVersion(bucket, obj.key);
+                        return true;
+                    });
+                    if (expired) expiredObjects++;
+                }
+            }
+
+            if (rule.abortIncompleteMultipartUploadDays) {
+                const initiatedBefore = new Date(now.getTime() - rule.abortIncompleteMultipartUploadDays * DAY_MS);
+                const stale = await db.select().from(multipartUploads)
+                    .where(and(
+                        eq(multipartUploads.bucketId, bucket.id),
+                        like(multipartUploads.key, `${rule.prefix}%`),
+                        lt(multipartUploads.initiatedAt, initiatedBefore),
+                    ));
+
+                for (const upload of stale) {
+                    if (!upload.key.startsWith(rule.prefix)) continue;
+                    if (await abortStaleMultipartUpload(upload, initiatedBefore) !== null) abortedUploads++;
+                }
+            }
+        }
+    }
+
+    return { expiredObjects, abortedUploads };
+}
+
+let running = false;
+
+/** Schedule lifecycle runs inside the server process (LIFECYCLE_INTERVAL_MINUTES=0 disables it) */
+export function startLifecycleWorker(): void {
+    if (env.lifecycle.intervalMinutes <= 0) return;
+
+    setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            const { expiredObjects, abortedUploads } = await applyLifecycleRules();
+            if (expiredObjects > 0 || abortedUploads > 0) {
+                console.log(`[Lifecycle] Expired ${expiredObjects} object(s), aborted ${abortedUploads} multipart upload(s)`);
+            }
+        } catch (err) {
+            console.error('[Lifecycle] Run failed:', err);
+        } finally {
+            running = false;
+        }
+    }, env.lifecycle.intervalMinutes * 60 * 1000);
+}
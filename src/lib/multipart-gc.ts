@@ -0,0 +1,121 @@
+import { and, eq, lt } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { buckets, multipartUploads, multipartParts } from '../db/schema';
+import { env } from '../config/env';
+import { storage } from './storage/filesystem';
+import { withKeyWriteLock } from './versioning';
+
+export interface SweepReport {
+    dryRun: boolean;
+    maxAgeHours: number;
+    cutoff: Date;
+    uploads: { uploadId: string; bucket: string; key: string; initiatedAt: Date; bytes: number }[];
+    orphanedDirectories: { uploadId: string; modifiedAt: Date; bytes: number }[];
+    reclaimedBytes: number;
+}
+
+/**
+ * The upload `uploadId` names, provided it was started for this bucket and key — an upload ID
+ * alone must not let a caller reach uploads their policy does not cover.
+ */
+export async function findMultipartUpload(bucketName: string, key: string, uploadId: string): Promise<typeof multipartUploads.$inferSelect | undefined> {
+    const [row] = await db.select({ upload: multipartUploads }).from(multipartUploads)
+        .innerJoin(buckets, eq(buckets.id, multipartUploads.bucketId))
+        .where(and(eq(multipartUploads.uploadId, uploadId), eq(buckets.name, bucketName), eq(multipartUploads.key, key)))
+        .limit(1);
+    return row?.upload;
+}
+
+/** Drop an upload's parts from disk and the database. Returns the number of bytes freed. */
+export async function abortMultipartUpload(uploadId: string): Promise<number> {
+    const bytes = await storage.getMultipartSize(uploadId);
+    await storage.cleanupMultipart(uploadId);
+    await db.delete(multipartParts).where(eq(multipartParts.uploadId, uploadId));
+    await db.delete(multipartUploads).where(eq(multipartUploads.uploadId, uploadId));
+    return bytes;
+}
+
+/**
+ * Abort an upload judged to have been initiated before `initiatedBefore`. The key's write lock
+ * keeps a CompleteMultipartUpload from assembling parts while they are deleted, and the upload
+ * is looked up again under it. Returns the bytes freed, or null if it is gone or not stale.
+ */
+export async function abortStaleMultipartUpload(
+    upload: { uploadId: string; bucketId: number; key: string },
+    initiatedBefore: Date,
+): Promise<number | null> {
+    return withKeyWriteLock(upload.bucketId, upload.key, async () => {
+        const [current] = await db.select({ uploadId: multipartUploads.uploadId }).from(multipartUploads)
+            .where(and(eq(multipartUploads.uploadId, upload.uploadId), lt(multipartUploads.initiatedAt, initiatedBefore)))
+            .limit(1);
+        return current ? abortMultipartUpload(upload.uploadId) : null;
+    });
+}
+
+/**
+ * Find multipart uploads older than `maxAgeHours` and, unless `dryRun` is set, abort them.
+ * Part directories left behind without an upload record are swept as well.
+ */
+export async function sweepMultipartUploads(options: { dryRun?: boolean; maxAgeHours?: number } = {}): Promise<SweepReport> {
+    const dryRun = options.dryRun ?? false;
+    const maxAgeHours = options.maxAgeHours ?? env.multipartGc.maxAgeHours;
+    const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+
+    const report: SweepReport = { dryRun, maxAgeHours, cutoff, uploads: [], orphanedDirectories: [], reclaimedBytes: 0 };
+
+    const stale = await db.select({
+        uploadId: multipartUploads.uploadId,
+        bucketId: multipartUploads.bucketId,
+        key: multipartUploads.key,
+        initiatedAt: multipartUploads.initiatedAt,
+        bucket: buckets.name,
+    }).from(multipartUploads)
+        .innerJoin(buckets, eq(multipartUploads.bucketId, buckets.id))
+        .where(lt(multipartUploads.initiatedAt, cutoff));
+
+    for (const { bucketId, ...upload } of stale) {
+        const bytes = dryRun
+            ? await storage.getMultipartSize(upload.uploadId)
+            : await abortStaleMultipartUpload({ ...upload, bucketId }, cutoff);
+        // Completed or aborted since it was listed
+        if (bytes === null) continue;
+        report.uploads.push({ ...upload, bytes });
+        report.reclaimedBytes += bytes;
+    }
+
+    const known = new Set(
+        (await db.select({ uploadId: multipartUploads.uploadId }).from(multipartUploads)).map((u) => u.uploadId),
+    );
+    for (const dir of await storage.listMultipartDirectories()) {
+        if (known.has(dir.uploadId) || dir.mtime >= cutoff) continue;
+        const bytes = await storage.getMultipartSize(dir.uploadId);
+        if (!dryRun) await storage.cleanupMultipart(dir.uploadId);
+        report.orphanedDirectories.push({ uploadId: dir.uploadId, modifiedAt: dir.mtime, bytes });
+        report.reclaimedBytes += bytes;
+    }
+
+    return report;
+}
+
+let running = false;
+
+/** Periodically abort abandoned uploads (MULTIPART_MAX_AGE_HOURS=0 disables the sweeper) */
+export function startMultipartSweeper(): void {
+    if (env.multipartGc.maxAgeHours <= 0 || env.multipartGc.intervalMinutes <= 0) return;
+
+    setInterval(async () => {
+        if (running) return;
+        running = true;
+        try {
+            const report = await sweepMultipartUploads();
+            const count = report.uploads.length + report.orphanedDirectories.length;
+            if (count > 0) {
+                console.log(`[MultipartGC] Aborted ${report.uploads.length} upload(s), removed ${report.orphanedDirectories.length} orphaned director(ies), reclaimed ${report.reclaimedBytes} bytes`);
+            }
+        } catch (err) {
+            console.error('[MultipartGC] Sweep failed:', err);
+        } finally {
+            running = false;
+        }
+    }, env.multipartGc.intervalMinutes * 60 * 1000);
+}
@@ -0,0 +1,330 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { eq, lte, asc } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { buckets, notificationQueue, notificationDeadLetters } from '../db/schema';
+import { env } from '../config/env';
+import { xml } from './xml/builder';
+import { clientIp } from './client';
+import { appendBucketEvent, matchesEventFilter, type EventFilter } from './event-feed';
+
+type BucketRecord = typeof buckets.$inferSelect;
+
+export type NotificationKind = 'TopicConfiguration' | 'QueueConfiguration' | 'CloudFunctionConfiguration';
+
+export interface NotificationTarget extends EventFilter {
+    id: string;
+    kind: NotificationKind;
+    /** Webhook endpoint events are POSTed to */
+    url: string;
+}
+
+export interface BucketEventObject {
+    key: string;
+    size?: number;
+    etag?: string;
+    versionId?: string;
+}
+
+export const SUPPORTED_EVENTS = [
+    's3:ObjectCreated:*',
+    's3:ObjectCreated:Put',
+    's3:ObjectCreated:Post',
+    's3:ObjectCreated:Copy',
+    's3:ObjectCreated:CompleteMultipartUpload',
+    's3:ObjectRemoved:*',
+    's3:ObjectRemoved:Delete',
+    's3:ObjectRemoved:DeleteMarkerCreated',
+];
+
+const TARGET_ELEMENTS: { kind: NotificationKind; target: string }[] = [
+    { kind: 'TopicConfiguration', target: 'Topic' },
+    { kind: 'QueueConfiguration', target: 'Queue' },
+    { kind: 'CloudFunctionConfiguration', target: 'CloudFunction' },
+];
+// Deliveries sent per worker pass — the rest wait for the next one
+const BATCH_SIZE = 100;
+
+/**
+ * Parse a NotificationConfiguration XML body. Targets are webhook URLs given in
+ * the Topic, Queue or CloudFunction element. Returns null when the document is invalid;
+ * an empty configuration yields no targets.
+ */
+export function parseNotificationConfiguration(body: string): NotificationTarget[] | null {
+    let parsed: any;
+    try {
+        parsed = xml.parse(body);
+    } catch {
+        return null;
+    }
+    if (!parsed || !('NotificationConfiguration' in parsed)) return null;
+    const node = parsed.NotificationConfiguration || {};
+
+    const targets: NotificationTarget[] = [];
+    for (const { kind, target } of TARGET_ELEMENTS) {
+        for (const entry of xml.asArray(node[kind])) {
+            const url = String(entry?.[target] ?? '');
+            if (!/^https?:\/\/\S+$/.test(url)) return null;
+
+            const events = xml.asArray(entry.Event).map(String);
+            if (events.length === 0 || events.some((e) => !SUPPORTED_EVENTS.includes(e))) return null;
+
+            const item: NotificationTarget = {
+                id: String(entry.Id || `notification-${targets.length + 1}`),
+                kind,
+                url,
+                events,
+            };
+            for (const rule of xml.asArray(entry.Filter?.S3Key?.FilterRule)) {
+                const name = String(rule.Name ?? '').toLowerCase();
+                if (name !== 'prefix' && name !== 'suffix') return null;
+                if (item[name] !== undefined) return null;
+                item[name] = String(rule.Value ?? '');
+            }
+            targets.push(item);
+        }
+    }
+
+    if (new Set(targets.map((t) => t.id)).size !== targets.length) return null;
+    return targets;
+}
+
+/** Loopback, private, link-local, CGNAT, multicast and unspecified addresses — nothing a public webhook resolves to */
+function isInternalAddress(address: string): boolean {
+    let ip = address.toLowerCase();
+    // IPv4-mapped IPv6, in dotted (::ffff:127.0.0.1) or URL-normalized hex (::ffff:7f00:1) form
+    const mapped = ip.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+    if (mapped) {
+        ip = mapped[1] ?? [parseInt(mapped[2]!, 16) >> 8, parseInt(mapped[2]!, 16) & 255, parseInt(mapped[3]!, 16) >> 8, parseInt(mapped[3]!, 16) & 255].join('.');
+    }
+
+    if (isIP(ip) === 4) {
+        const [a = 0, b = 0] = ip.split('.').map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224
+            || (a === 100 && b >= 64 && b < 128)
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b < 32)
+            || (a === 192 && b === 168)
+            || (a === 198 && (b === 18 || b === 19));
+    }
+    return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+/**
+ * Why events must not be sent to `url`, or null if they may. A webhook host must not
+ * resolve to an internal address — the server would otherwise POST into its own network
+ * on a bucket owner's behalf — unless it is listed in NOTIFICATION_ALLOWED_HOSTS.
+ * Checked when the configuration is set and again before every delivery, as DNS may change.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+    let host: string;
+    try {
+        host = new URL(url).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    } catch {
+        return `${url} is not a valid URL`;
+    }
+    if (env.notifications.allowedHosts.includes(host)) return null;
+
+    let addresses: string[];
+    if (isIP(host)) {
+        addresses = [host];
+    } else {
+        try {
+            addresses = (await lookup(host, { all: true })).map((entry) => entry.address);
+        } catch {
+            return `${host} does not resolve`;
+        }
+    }
+    const internal = addresses.find(isInternalAddress);
+    return internal ? `${host} points to the internal address ${internal}` : null;
+}
+
+let sequence = 0;
+
+/** Hex sequencer — increases for successive events so consumers can order them per key */
+function nextSequencer(): string {
+    sequence = (sequence + 1) % 0x10000;
+    return Date.now().toString(16).toUpperCase().padStart(12, '0') + sequence.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/** S3 event record; `configurationId` is filled in per webhook target */
+function buildEventRecord(
+    bucket: BucketRecord,
+    eventName: string,
+    object: BucketEventObject,
+    requester: { principalId: string; sourceIp?: string },
+) {
+    return {
+        eventVersion: '2.1',
+        eventSource: 'aws:s3',
+        awsRegion: bucket.region,
+        eventTime: new Date().toISOString(),
+        eventName: eventName.replace(/^s3:/, ''),
+        userIdentity: { principalId: requester.principalId },
+        requestParameters: { sourceIPAddress: requester.sourceIp || '' },
+        responseElements: {},
+        s3: {
+            s3SchemaVersion: '1.0',
+            configurationId: undefined as string | undefined,
+            bucket: {
+                name: bucket.name,
+                ownerIdentity: { principalId: String(bucket.ownerId) },
+                arn: `arn:aws:s3:::${bucket.name}`,
+            },
+            object: {
+                key: encodeURIComponent(object.key).replace(/%2F/g, '/'),
+                size: object.size,
+                eTag: object.etag,
+                versionId: object.versionId,
+                sequencer: nextSequencer(),
+            },
+        },
+    };
+}
+
+/**
+ * Log an event to the bucket's change feed and queue it for every matching webhook.
+ * Called after the object row is written; failures are logged and never fail the S3 request itself.
+ */
+export async function notifyBucketEvent(
+    bucket: BucketRecord,
+    eventName: string,
+    object: BucketEventObject,
+    request: Request,
+    accessKeyId: string,
+): Promise<void> {
+    try {
+        const requester = {
+            principalId: accessKeyId,
+            sourceIp: clientIp(request),
+        };
+        const record = buildEventRecord(bucket, eventName, object, requester);
+        await appendBucketEvent(bucket.name, eventName, object.key, record);
+
+        const targets: NotificationTarget[] = bucket.notification ? JSON.parse(bucket.notification) : [];
+        const matching = targets.filter((t) => matchesEventFilter(t, eventName, object.key));
+        if (matching.length === 0) return;
+
+        await db.insert(notificationQueue).values(matching.map((target) => ({
+            bucketName: bucket.name,
+            configurationId: target.id,
+            targetUrl: target.url,
+            eventName,
+            payload: JSON.stringify({ Records: [{ ...record, s3: { ...record.s3, configurationId: target.id } }] }),
+        })));
+
+        deliverInBackground();
+    } catch (err) {
+        console.error(`[Notifications] Failed to queue ${eventName} for ${bucket.name}/${object.key}:`, err);
+    }
+}
+
+async function postEvent(url: string, payload: string): Promise<void> {
+    const refused = await checkWebhookTarget(url);
+    if (refused) throw new Error(refused);
+
+    // Redirects are not followed — they could lead anywhere, internal addresses included
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(env.notifications.timeoutMs),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+}
+
+let running = false;
+
+/** Send every due delivery once. Failures back off exponentially, then go to the dead-letter table. */
+export async function deliverPendingNotifications(now = new Date()): Promise<{ delivered: number; failed: number; deadLettered: number }> {
+    const result = { delivered: 0, failed: 0, deadLettered: 0 };
+    if (running) return result;
+    running = true;
+
+    try {
+        const due = await db.select().from(notificationQueue)
+            .where(lte(notificationQueue.nextAttemptAt, now))
+            .orderBy(asc(notificationQueue.id))
+            .limit(BATCH_SIZE);
+
+        for (const delivery of due) {
+            try {
+                await postEvent(delivery.targetUrl, delivery.payload);
+                await db.delete(notificationQueue).where(eq(notificationQueue.id, delivery.id));
+                result.delivered++;
+            } catch (err: any) {
+                const attempts = delivery.attempts + 1;
+                const lastError = String(err?.message || err);
+
+                if (attempts >= env.notifications.maxAttempts) {
+                    await db.insert(notificationDeadLetters).values({
+                        bucketName: delivery.bucketName,
+                        configurationId: delivery.configurationId,
+                        targetUrl: delivery.targetUrl,
+                        eventName: delivery.eventName,
+                        payload: delivery.payload,
+                        attempts,
+                        lastError,
+                        createdAt: delivery.createdAt,
+                    });
+                    await db.delete(notificationQueue).where(eq(notificationQueue.id, delivery.id));
+                    console.warn(`[Notifications] Gave up on ${delivery.eventName} for ${delivery.bucketName} → ${delivery.targetUrl} after ${attempts} attempt(s): ${lastError}`);
+                    result.deadLettered++;
+                } else {
+                    const delaySeconds = env.notifications.retryBaseSeconds * 2 ** (attempts - 1);
+                    await db.update(notificationQueue).set({
+                        attempts,
+                        lastError,
+                        nextAttemptAt: new Date(Date.now() + delaySeconds * 1000),
+                    }).where(eq(notificationQueue.id, delivery.id));
+                    result.failed++;
+                }
+            }
+        }
+    } finally {
+        running = false;
+    }
+
+    return result;
+}
+
+/** Start a delivery pass without waiting for it; a failed pass is logged and the worker retries later */
+function deliverInBackground(): void {
+    deliverPendingNotifications().catch((err) => console.error('[Notifications] Delivery run failed:', err));
+}
+
+/** Put a dead-lettered event back on the queue for immediate delivery */
+export async function retryDeadLetter(id: number): Promise<boolean> {
+    const [letter] = await db.select().from(notificationDeadLetters)
+        .where(eq(notificationDeadLetters.id, id))
+        .limit(1);
+    if (!letter) return false;
+
+    await db.insert(notificationQueue).values({
+        bucketName: letter.bucketName,
+        configurationId: letter.configurationId,
+        targetUrl: letter.targetUrl,
+        eventName: letter.eventName,
+        payload: letter.payload,
+    });
+    await db.delete(notificationDeadLetters).where(eq(notificationDeadLetters.id, id));
+    deliverInBackground();
+    return true;
+}
+
+/** Poll the delivery queue (NOTIFICATION_POLL_INTERVAL_SECONDS=0 disables retries) */
+export function startNotificationWorker(): void {
+    if (env.notifications.pollIntervalSeconds <= 0) return;
+
+    setInterval(async () => {
+        try {
+            const { delivered, failed, deadLettered } = await deliverPendingNotifications();
+            if (failed > 0 || deadLettered > 0) {
+                console.log(`[Notifications] Delivered ${delivered}, will retry ${failed}, dead-lettered ${deadLettered}`);
+            }
+        } catch (err) {
+            console.error('[Notifications] Delivery run failed:', err);
+        }
+    }, env.notifications.pollIntervalSeconds * 1000);
+}
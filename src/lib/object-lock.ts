@@ -0,0 +1,203 @@
+import { db } from '../db/connection';
+import { buckets, objects } from '../db/schema';
+import { S3Errors, type S3Error } from './errors';
+import { findObjectVersion, NULL_VERSION_ID } from './versioning';
+import { xml } from './xml/builder';
+
+type BucketRecord = typeof buckets.$inferSelect;
+type ObjectRecord = typeof objects.$inferSelect;
+
+export type RetentionMode = 'GOVERNANCE' | 'COMPLIANCE';
+
+export interface DefaultRetention {
+    mode: RetentionMode;
+    days?: number;
+    years?: number;
+}
+
+export interface ObjectLockConfiguration {
+    enabled: true;
+    defaultRetention?: DefaultRetention;
+}
+
+/** Lock state of a single object version, as stored on its row */
+export interface ObjectLockSettings {
+    retentionMode: RetentionMode | null;
+    retainUntilDate: Date | null;
+    legalHold: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_MODES: string[] = ['GOVERNANCE', 'COMPLIANCE'];
+
+function parsePositiveInt(value: unknown): number | null {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? n : null;
+}
+
+function parseXml(body: string): any {
+    try {
+        return xml.parse(body);
+    } catch {
+        return null;
+    }
+}
+
+/** Parse an ObjectLockConfiguration XML body. Returns null when the document is invalid. */
+export function parseObjectLockConfiguration(body: string): ObjectLockConfiguration | null {
+    const node = parseXml(body)?.ObjectLockConfiguration;
+    if (!node || node.ObjectLockEnabled !== 'Enabled') return null;
+
+    const config: ObjectLockConfiguration = { enabled: true };
+    const retention = node.Rule?.DefaultRetention;
+    if (retention) {
+        if (!RETENTION_MODES.includes(retention.Mode)) return null;
+        const days = retention.Days !== undefined ? parsePositiveInt(retention.Days) : null;
+        const years = retention.Years !== undefined ? parsePositiveInt(retention.Years) : null;
+        // Exactly one of Days or Years
+        if ((days === null) === (years === null)) return null;
+        config.defaultRetention = { mode: retention.Mode, ...(days ? { days } : { years: years! }) };
+    }
+    return config;
+}
+
+/** Parse a Retention XML body. An empty <Retention/> clears the retention period. */
+export function parseRetention(body: string): { mode: RetentionMode | null; retainUntilDate: Date | null } | null {
+    const parsed = parseXml(body);
+    if (!parsed || !('Retention' in parsed)) return null;
+
+    const node = parsed.Retention || {};
+    if (node.Mode === undefined && node.RetainUntilDate === undefined) {
+        return { mode: null, retainUntilDate: null };
+    }
+    if (!RETENTION_MODES.includes(node.Mode)) return null;
+    const retainUntilDate = new Date(String(node.RetainUntilDate));
+    if (isNaN(retainUntilDate.getTime())) return null;
+    return { mode: node.Mode, retainUntilDate };
+}
+
+/** Parse a LegalHold XML body into the hold flag. Returns null when the document is invalid. */
+export function parseLegalHold(body: string): boolean | null {
+    const status = parseXml(body)?.LegalHold?.Status;
+    if (status !== 'ON' && status !== 'OFF') return null;
+    return status === 'ON';
+}
+
+export function getBucketObjectLock(bucket: BucketRecord): ObjectLockConfiguration | null {
+    if (!bucket.objectLock) return null;
+    try {
+        return JSON.parse(bucket.objectLock);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Work out the lock state for a new object version from the `x-amz-object-lock-*`
+ * request headers, falling back to the bucket's default retention.
+ */
+export function resolveObjectLockHeaders(bucket: BucketRecord, headers: Headers, now = new Date()): ObjectLockSettings | S3Error {
+    const mode = headers.get('x-amz-object-lock-mode');
+    const until = headers.get('x-amz-object-lock-retain-until-date');
+    const hold = headers.get('x-amz-object-lock-legal-hold');
+    const config = getBucketObjectLock(bucket);
+
+    const settings: ObjectLockSettings = { retentionMode: null, retainUntilDate: null, legalHold: false };
+    if (!mode && !until && !hold && !config?.defaultRetention) return settings;
+    if (!config) return S3Errors.InvalidRequest('Bucket is missing Object Lock Configuration');
+
+    if (hold) {
+        if (hold !== 'ON' && hold !== 'OFF') return S3Errors.InvalidArgument('Legal Hold must be either of ON or OFF');
+        settings.legalHold = hold === 'ON';
+    }
+
+    if (mode || until) {
+        if (!mode || !until) {
+            return S3Errors.InvalidArgument('x-amz-object-lock-retain-until-date and x-amz-object-lock-mode must both be supplied');
+        }
+        if (!RETENTION_MODES.includes(mode)) return S3Errors.InvalidArgument('Unknown wormMode directive.');
+        const retainUntilDate = new Date(until);
+        if (isNaN(retainUntilDate.getTime()) || retainUntilDate <= now) {
+            return S3Errors.InvalidArgument('The retain until date must be in the future!');
+        }
+        settings.retentionMode = mode as RetentionMode;
+        settings.retainUntilDate = retainUntilDate;
+    } else if (config.defaultRetention) {
+        const { mode: defaultMode, days, years } = config.defaultRetention;
+        const retainUntilDate = new Date(now.getTime() + (days ?? 0) * DAY_MS);
+        if (years) retainUntilDate.setUTCFullYear(retainUntilDate.getUTCFullYear() + years);
+        settings.retentionMode = defaultMode;
+        settings.retainUntilDate = retainUntilDate;
+    }
+
+    return settings;
+}
+
+/** Lock settings carried on a multipart upload row until CompleteMultipartUpload */
+export function parseStoredObjectLock(stored: string | null): ObjectLockSettings {
+    const settings: ObjectLockSettings = { retentionMode: null, retainUntilDate: null, legalHold: false };
+    if (!stored) return settings;
+    try {
+        const raw = JSON.parse(stored);
+        settings.retentionMode = raw.retentionMode ?? null;
+        settings.retainUntilDate = raw.retainUntilDate ? new Date(raw.retainUntilDate) : null;
+        settings.legalHold = !!raw.legalHold;
+    } catch { /* ignore */ }
+    return settings;
+}
+
+export function objectLockHeaders(obj: ObjectRecord): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (obj.retentionMode && obj.retainUntilDate) {
+        headers['x-amz-object-lock-mode'] = obj.retentionMode;
+        headers['x-amz-object-lock-retain-until-date'] = obj.retainUntilDate.toISOString();
+    }
+    if (obj.legalHold) headers['x-amz-object-lock-legal-hold'] = 'ON';
+    return headers;
+}
+
+/**
+ * Whether a version may be permanently removed. Legal holds and COMPLIANCE retention
+ * cannot be bypassed; GOVERNANCE retention yields to `x-amz-bypass-governance-retention`.
+ */
+export function checkVersionDeletable(version: ObjectRecord, bypassGovernance = false, now = new Date()): S3Error | null {
+    if (version.isDeleteMarker) return null;
+    if (version.legalHold) return S3Errors.ObjectLocked();
+    if (version.retainUntilDate && version.retainUntilDate > now) {
+        if (version.retentionMode === 'COMPLIANCE' || !bypassGovernance) return S3Errors.ObjectLocked();
+    }
+    return null;
+}
+
+/**
+ * Whether PutObjectRetention may replace a version's retention. Retention can always be
+ * extended; COMPLIANCE can never be shortened or removed, GOVERNANCE only with bypass.
+ */
+export function checkRetentionChange(
+    version: ObjectRecord,
+    next: { mode: RetentionMode | null; retainUntilDate: Date | null },
+    bypassGovernance = false,
+    now = new Date(),
+): S3Error | null {
+    if (next.retainUntilDate && next.retainUntilDate <= now) {
+        return S3Errors.InvalidArgument('The retain until date must be in the future!');
+    }
+    if (!version.retainUntilDate || version.retainUntilDate <= now) return null;
+
+    const weakens = !next.retainUntilDate
+        || next.retainUntilDate < version.retainUntilDate
+        || (version.retentionMode === 'COMPLIANCE' && next.mode !== 'COMPLIANCE');
+    if (!weakens) return null;
+    if (version.retentionMode === 'COMPLIANCE' || !bypassGovernance) return S3Errors.ObjectLocked();
+    return null;
+}
+
+/**
+ * Writing to a bucket that isn't versioning-enabled replaces the "null" version in place,
+ * so a locked null version must not be overwritten.
+ */
+export async function checkOverwriteAllowed(bucket: BucketRecord, key: string, bypassGovernance = false): Promise<S3Error | null> {
+    if (bucket.versioning === 'Enabled') return null;
+    const nullVersion = await findObjectVersion(bucket.id, key, NULL_VERSION_ID);
+    return nullVersion ? checkVersionDeletable(nullVersion, bypassGovernance) : null;
+}
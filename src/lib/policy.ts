@@ -0,0 +1,237 @@
+import { BlockList, isIP } from 'node:net';
+
+export interface PolicyStatement {
+    Sid?: string;
+    Effect: 'Allow' | 'Deny';
+    Principal: '*' | { AWS: string | string[] };
+    Action: string | string[];
+    Resource: string | string[];
+    Condition?: Record<string, Record<string, string | string[] | boolean>>;
+}
+
+export interface BucketPolicy {
+    Version?: string;
+    Id?: string;
+    Statement: PolicyStatement[];
+}
+
+export interface PolicyRequest {
+    /** Access key ID of the caller, or '*' for anonymous requests */
+    principal: string;
+    action: string;
+    bucket: string;
+    key?: string;
+    /** Condition context, keyed by lower-case condition key */
+    context: Record<string, string | undefined>;
+}
+
+export type PolicyDecision = 'Allow' | 'Deny' | 'Implicit';
+
+const CONDITION_OPERATORS = [
+    'StringEquals', 'StringNotEquals', 'StringLike', 'StringNotLike',
+    'IpAddress', 'NotIpAddress', 'Bool',
+];
+
+function asList<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+/** IAM-style wildcard match: `*` matches any run of characters, `?` exactly one */
+function wildcardMatch(pattern: string, value: string, caseInsensitive = false): boolean {
+    const source = pattern
+        .split('')
+        .map((ch) => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '').test(value);
+}
+
+function ipMatches(ip: string, cidr: string): boolean {
+    const [address, bits] = cidr.split('/');
+    const family = isIP(address || '');
+    if (!family || !isIP(ip)) return false;
+    const list = new BlockList();
+    const type = family === 4 ? 'ipv4' : 'ipv6';
+    list.addSubnet(address!, bits !== undefined ? parseInt(bits) : family === 4 ? 32 : 128, type);
+    return list.check(ip, isIP(ip) === 4 ? 'ipv4' : 'ipv6');
+}
+
+function conditionHolds(operator: string, expected: string[], actual: string | undefined): boolean {
+    switch (operator) {
+        case 'StringEquals':
+            return actual !== undefined && expected.includes(actual);
+        case 'StringNotEquals':
+            return actual === undefined || !expected.includes(actual);
+        case 'StringLike':
+            return actual !== undefined && expected.some((e) => wildcardMatch(e, actual));
+        case 'StringNotLike':
+            return actual === undefined || !expected.some((e) => wildcardMatch(e, actual));
+        case 'IpAddress':
+            return actual !== undefined && expected.some((e) => ipMatches(actual, e));
+        case 'NotIpAddress':
+            return actual === undefined || !expected.some((e) => ipMatches(actual, e));
+        case 'Bool':
+            return actual !== undefined && expected.includes(actual);
+        default:
+            return false;
+    }
+}
+
+function statementApplies(statement: PolicyStatement, request: PolicyRequest): boolean {
+    const principals = statement.Principal === '*' ? ['*'] : asList(statement.Principal.AWS);
+    if (!principals.some((p) => p === '*' || p === request.principal)) return false;
+
+    if (!asList(statement.Action).some((a) => wildcardMatch(a, request.action, true))) return false;
+
+    const arn = request.key !== undefined
+        ? `arn:aws:s3:::${request.bucket}/${request.key}`
+        : `arn:aws:s3:::${request.bucket}`;
+    if (!asList(statement.Resource).some((r) => wildcardMatch(r, arn))) return false;
+
+    for (const [operator, block] of Object.entries(statement.Condition || {})) {
+        for (const [conditionKey, expected] of Object.entries(block)) {
+            const values = asList(expected).map(String);
+            if (!conditionHolds(operator, values, request.context[conditionKey.toLowerCase()])) return false;
+        }
+    }
+    return true;
+}
+
+/** An explicit Deny always wins; otherwise any matching Allow grants access */
+export function evaluateBucketPolicy(policy: BucketPolicy, request: PolicyRequest): PolicyDecision {
+    let decision: PolicyDecision = 'Implicit';
+    for (const statement of policy.Statement) {
+        if (!statementApplies(statement, request)) continue;
+        if (statement.Effect === 'Deny') return 'Deny';
+        decision = 'Allow';
+    }
+    return decision;
+}
+
+/**
+ * Validate a policy document for `bucket`. Returns the normalized policy,
+ * or an error message suitable for a MalformedPolicy response.
+ */
+export function parseBucketPolicy(document: string, bucket: string): BucketPolicy | string {
+    let raw: any;
+    try {
+        raw = JSON.parse(document);
+    } catch {
+        return 'Policies must be valid JSON';
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'Policy document must be a JSON object';
+
+    const statements = asList<any>(raw.Statement);
+    if (statements.length === 0) return 'Missing required field Statement';
+
+    for (const statement of statements) {
+        if (statement.Effect !== 'Allow' && statement.Effect !== 'Deny') {
+            return 'Invalid effect: must be Allow or Deny';
+        }
+
+        const principal = statement.Principal;
+        const validPrincipal = principal === '*'
+            || (principal && typeof principal === 'object' && asList(principal.AWS).length > 0
+                && asList(principal.AWS).every((p: unknown) => typeof p === 'string'));
+        if (!validPrincipal) return 'Invalid principal in policy';
+
+        const actions = asList<unknown>(statement.Action);
+        if (actions.length === 0 || !actions.every((a) => typeof a === 'string' && (a === '*' || /^s3:/i.test(a)))) {
+            return 'Policy has invalid action';
+        }
+
+        const resources = asList<unknown>(statement.Resource);
+        const bucketArn = `arn:aws:s3:::${bucket}`;
+        if (resources.length === 0 || !resources.every((r) => typeof r === 'string' && (r === bucketArn || r.startsWith(`${bucketArn}/`)))) {
+            return 'Policy has invalid resource';
+        }
+
+        if (statement.Condition !== undefined) {
+            if (typeof statement.Condition !== 'object' || Array.isArray(statement.Condition)) {
+                return 'Policy has an invalid condition';
+            }
+            for (const [operator, block] of Object.entries<any>(statement.Condition)) {
+                if (!CONDITION_OPERATORS.includes(operator)) return `Policy has an invalid condition operator: ${operator}`;
+                if (!block || typeof block !== 'object' || Array.isArray(block)) return 'Policy has an invalid condition';
+            }
+        }
+    }
+
+    return { ...raw, Statement: statements };
+}
+
+/** Map a request onto the IAM action name bucket policies refer to */
+export function resolveS3Action(method: string, key: string | undefined, searchParams: URLSearchParams): string {
+    const has = (name: string) => searchParams.has(name);
+
+    if (key === undefined) {
+        switch (method) {
+            case 'GET':
+                if (has('versioning')) return 's3:GetBucketVersioning';
+                if (has('lifecycle')) return 's3:GetLifecycleConfiguration';
+                if (has('cors')) return 's3:GetBucketCORS';
+                if (has('policy')) return 's3:GetBucketPolicy';
+                if (has('tagging')) return 's3:GetBucketTagging';
+                if (has('object-lock')) return 's3:GetBucketObjectLockConfiguration';
+                if (has('website')) return 's3:GetBucketWebsite';
+                if (has('notification')) return 's3:GetBucketNotification';
+                if (has('events')) return 's3:ListenBucketNotification';
+                if (has('encryption')) return 's3:GetEncryptionConfiguration';
+                if (has('acl')) return 's3:GetBucketAcl';
+                if (has('location')) return 's3:GetBucketLocation';
+                if (has('versions')) return 's3:ListBucketVersions';
+                if (has('uploads')) return 's3:ListBucketMultipartUploads';
+                return 's3:ListBucket';
+            case 'HEAD':
+                return 's3:ListBucket';
+            case 'PUT':
+                if (has('versioning')) return 's3:PutBucketVersioning';
+                if (has('lifecycle')) return 's3:PutLifecycleConfiguration';
+                if (has('cors')) return 's3:PutBucketCORS';
+                if (has('policy')) return 's3:PutBucketPolicy';
+                if (has('tagging')) return 's3:PutBucketTagging';
+                if (has('object-lock')) return 's3:PutBucketObjectLockConfiguration';
+                if (has('website')) return 's3:PutBucketWebsite';
+                if (has('notification')) return 's3:PutBucketNotification';
+                if (has('encryption')) return 's3:PutEncryptionConfiguration';
+                if (has('acl')) return 's3:PutBucketAcl';
+                return 's3:CreateBucket';
+            case 'DELETE':
+                if (has('lifecycle')) return 's3:PutLifecycleConfiguration';
+                if (has('cors')) return 's3:PutBucketCORS';
+                if (has('policy')) return 's3:DeleteBucketPolicy';
+                if (has('tagging')) return 's3:PutBucketTagging';
+                if (has('website')) return 's3:DeleteBucketWebsite';
+                if (has('encryption')) return 's3:PutEncryptionConfiguration';
+                return 's3:DeleteBucket';
+            case 'POST':
+                // DeleteObjects, or a browser form upload (POST Object)
+                return has('delete') ? 's3:DeleteObject' : 's3:PutObject';
+        }
+        return 's3:ListBucket';
+    }
+
+    switch (method) {
+        case 'GET':
+        case 'HEAD':
+            if (has('tagging')) return has('versionId') ? 's3:GetObjectVersionTagging' : 's3:GetObjectTagging';
+            if (has('retention')) return 's3:GetObjectRetention';
+            if (has('legal-hold')) return 's3:GetObjectLegalHold';
+            if (has('uploadId')) return 's3:ListMultipartUploadParts';
+            if (has('attributes')) return has('versionId') ? 's3:GetObjectVersionAttributes' : 's3:GetObjectAttributes';
+            if (has('versionId')) return 's3:GetObjectVersion';
+            return 's3:GetObject';
+        case 'DELETE':
+            if (has('tagging')) return has('versionId') ? 's3:DeleteObjectVersionTagging' : 's3:DeleteObjectTagging';
+            if (has('uploadId')) return 's3:AbortMultipartUpload';
+            if (has('versionId')) return 's3:DeleteObjectVersion';
+            return 's3:DeleteObject';
+        default:
+            // SelectObjectContent reads the object
+            if (has('select')) return has('versionId') ? 's3:GetObjectVersion' : 's3:GetObject';
+            if (has('tagging')) return has('versionId') ? 's3:PutObjectVersionTagging' : 's3:PutObjectTagging';
+            if (has('retention')) return 's3:PutObjectRetention';
+            if (has('legal-hold')) return 's3:PutObjectLegalHold';
+            return 's3:PutObject';
+    }
+}
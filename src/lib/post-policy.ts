@@ -0,0 +1,175 @@
+import { S3Errors, type S3Error } from './errors';
+
+/** A browser form upload: lowercased field names, and the `file` field's contents */
+export interface PostForm {
+    fields: Record<string, string>;
+    file: { name: string; type: string; data: Buffer };
+}
+
+type PolicyCondition =
+    | { op: 'eq' | 'starts-with'; field: string; value: string }
+    | { op: 'content-length-range'; min: number; max: number };
+
+export interface PostPolicy {
+    expiration: Date;
+    conditions: PolicyCondition[];
+}
+
+/** Form fields that never need a policy condition */
+const UNCONDITIONED_FIELDS = ['file', 'policy', 'x-amz-signature'];
+
+/** Is this a POST Object upload — a `multipart/form-data` POST to the bucket itself? */
+export function isPostObjectRequest(method: string, key: string | undefined, searchParams: URLSearchParams, contentType: string | undefined): boolean {
+    return method === 'POST' && key === undefined && !searchParams.has('delete')
+        && (contentType ?? '').toLowerCase().startsWith('multipart/form-data');
+}
+
+/**
+ * Read a POST Object form. Field names are case-insensitive; S3 ignores anything after the
+ * file, which must be the last field and the only file.
+ */
+export async function parsePostForm(body: Buffer, contentType: string): Promise<PostForm | S3Error> {
+    const form = await new Response(body, { headers: { 'content-type': contentType } }).formData().catch(() => null);
+    if (!form) return S3Errors.MalformedPOSTRequest();
+
+    const fields: Record<string, string> = {};
+    for (const [name, value] of form.entries()) {
+        const field = name.toLowerCase();
+        if (typeof value !== 'string') {
+            if (field !== 'file') return S3Errors.IncorrectNumberOfFilesInPostRequest();
+            return {
+                fields,
+                file: { name: value.name, type: value.type, data: Buffer.from(await value.arrayBuffer()) },
+            };
+        }
+        if (field === 'file') return S3Errors.IncorrectNumberOfFilesInPostRequest();
+        fields[field] = value;
+    }
+    return S3Errors.IncorrectNumberOfFilesInPostRequest();
+}
+
+/** The `key` field with `${filename}` replaced by the uploaded file's name, as S3 does */
+export function resolvePostKey(form: PostForm): string | undefined {
+    return form.fields['key']?.replaceAll('${filename}', form.file.name);
+}
+
+/** Decode a base64 policy document: an ISO `expiration` and a list of `conditions` */
+export function parsePostPolicy(encoded: string): PostPolicy | S3Error {
+    let document: any;
+    try {
+        document = JSON.parse(Buffer.from(encoded, 'base64').toString('utf-8'));
+    } catch {
+        return S3Errors.InvalidPolicyDocument('Invalid Policy: Invalid JSON.');
+    }
+
+    const expiration = new Date(typeof document?.expiration === 'string' ? document.expiration : NaN);
+    if (Number.isNaN(expiration.getTime())) {
+        return S3Errors.InvalidPolicyDocument('Invalid Policy: Policy missing expiration.');
+    }
+    if (!Array.isArray(document.conditions)) {
+        return S3Errors.InvalidPolicyDocument('Invalid Policy: Policy missing conditions.');
+    }
+
+    const conditions: PolicyCondition[] = [];
+    for (const condition of document.conditions) {
+        // { "field": "value" } is an exact match
+        if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+            const entries = Object.entries(condition);
+            if (entries.length !== 1 || typeof entries[0]![1] !== 'string') {
+                return S3Errors.InvalidPolicyDocument('Invalid Policy: Invalid Simple-Condition: Simple-Conditions must have exactly one property specified.');
+            }
+            conditions.push({ op: 'eq', field: entries[0]![0].toLowerCase(), value: entries[0]![1] as string });
+            continue;
+        }
+
+        if (!Array.isArray(condition) || condition.length !== 3) {
+            return S3Errors.InvalidPolicyDocument('Invalid Policy: Invalid Condition: conditions must be objects or three-element arrays.');
+        }
+        const [op, first, second] = condition;
+        const operator = String(op).toLowerCase();
+        if (operator === 'content-length-range') {
+            const min = Number(first);
+            const max = Number(second);
+            if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < min) {
+                return S3Errors.InvalidPolicyDocument('Invalid Policy: Invalid content-length-range.');
+            }
+            conditions.push({ op: 'content-length-range', min, max });
+        } else if (operator === 'eq' || operator === 'starts-with') {
+            if (typeof first !== 'string' || !first.startsWith('$') || typeof second !== 'string') {
+                return S3Errors.InvalidPolicyDocument(`Invalid Policy: Invalid '${operator}' condition.`);
+            }
+            conditions.push({ op: operator, field: first.slice(1).toLowerCase(), value: second });
+        } else {
+            return S3Errors.InvalidPolicyDocument(`Invalid Policy: Unknown condition operator '${op}'.`);
+        }
+    }
+
+    return { expiration, conditions };
+}
+
+/**
+ * Check a form against its policy: the policy must not have expired, every condition must
+ * hold (`bucket` against the bucket posted to, `key` after `${filename}` substitution, and
+ * `content-length-range` against the file), and every field the client sent must be covered
+ * by a condition — except the file, policy and signature, and `x-ignore-*` fields.
+ */
+export function checkPostPolicy(policy: PostPolicy, form: PostForm, bucketName: string, key: string): S3Error | null {
+    if (policy.expiration.getTime() < Date.now()) return S3Errors.PostPolicyViolation('Policy expired.');
+
+    const values: Record<string, string> = { ...form.fields, key, bucket: bucketName };
+    const covered = new Set<string>();
+
+    for (const condition of policy.conditions) {
+        if (condition.op === 'content-length-range') {
+            const size = form.file.data.length;
+            if (size < condition.min) return S3Errors.EntityTooSmall();
+            if (size > condition.max) return S3Errors.EntityTooLarge();
+            continue;
+        }
+
+        covered.add(condition.field);
+        const value = values[condition.field] ?? '';
+        // A Content-Type starts-with applies to each type of a comma-separated list
+        const candidates = condition.op === 'starts-with' && condition.field === 'content-type'
+            ? value.split(',').map((type) => type.trim())
+            : [value];
+        const holds = candidates.every((candidate) => condition.op === 'eq'
+            ? candidate === condition.value
+            : candidate.startsWith(condition.value));
+        if (!holds) {
+            return S3Errors.PostPolicyViolation(`Policy Condition failed: ["${condition.op}", "$${condition.field}", "${condition.value}"]`);
+        }
+    }
+
+    for (const field of Object.keys(form.fields)) {
+        if (UNCONDITIONED_FIELDS.includes(field) || field.startsWith('x-ignore-') || covered.has(field)) continue;
+        return S3Errors.PostPolicyViolation(`Extra input fields: ${field}`);
+    }
+    return null;
+}
+
+/**
+ * A base64 policy document allowing one upload of `key` to `bucket`. Each of `fields`
+ * (the credential fields among them) becomes an exact-match condition.
+ */
+export function buildPostPolicy(params: {
+    bucket: string;
+    key: string;
+    expiresIn: number;
+    fields: Record<string, string>;
+    contentLengthRange?: { min: number; max: number };
+}): string {
+    // A key naming `${filename}` can only be pinned down to the part before it
+    const filenameAt = params.key.indexOf('${filename}');
+    const keyCondition = filenameAt === -1 ? ['eq', '$key', params.key] : ['starts-with', '$key', params.key.slice(0, filenameAt)];
+    const conditions: unknown[] = [{ bucket: params.bucket }, keyCondition];
+    for (const [field, value] of Object.entries(params.fields)) {
+        conditions.push({ [field]: value });
+    }
+    if (params.contentLengthRange) {
+        conditions.push(['content-length-range', params.contentLengthRange.min, params.contentLengthRange.max]);
+    }
+
+    const expiration = new Date(Date.now() + params.expiresIn * 1000).toISOString();
+    return Buffer.from(JSON.stringify({ expiration, conditions })).toString('base64');
+}
@@ -0,0 +1,168 @@
+import { crc32 } from '../checksums';
+import { S3Errors, type S3Error } from '../errors';
+import { xml } from '../xml/builder';
+import { createSelection, isS3Error, type Query, type Row } from './query';
+import { createRecordWriter, createRowReader, type SelectRequest } from './formats';
+
+/** Records are sent once this much output is pending, or when they've waited a second */
+const RECORDS_BATCH_BYTES = 64 * 1024;
+const RECORDS_FLUSH_MS = 1_000;
+/** Progress (or a Cont keep-alive) goes out when the stream has been quiet this long */
+const KEEPALIVE_MS = 5_000;
+
+const STRING_HEADER_TYPE = 7;
+
+/**
+ * One event-stream message: total and header lengths with their CRC, string headers,
+ * the payload and a CRC over everything before it.
+ */
+function encodeMessage(headers: Record<string, string>, payload: Uint8Array = new Uint8Array(0)): Uint8Array {
+    const headerBytes = Buffer.concat(Object.entries(headers).map(([name, value]) => {
+        const nameBytes = Buffer.from(name);
+        const valueBytes = Buffer.from(value);
+        const header = Buffer.alloc(1 + nameBytes.length + 1 + 2 + valueBytes.length);
+        header.writeUInt8(nameBytes.length, 0);
+        nameBytes.copy(header, 1);
+        header.writeUInt8(STRING_HEADER_TYPE, 1 + nameBytes.length);
+        header.writeUInt16BE(valueBytes.length, 2 + nameBytes.length);
+        valueBytes.copy(header, 4 + nameBytes.length);
+        return header;
+    }));
+
+    const total = 12 + headerBytes.length + payload.length + 4;
+    const message = Buffer.alloc(total);
+    message.writeUInt32BE(total, 0);
+    message.writeUInt32BE(headerBytes.length, 4);
+    crc32(message.subarray(0, 8)).copy(message, 8);
+    headerBytes.copy(message, 12);
+    message.set(payload, 12 + headerBytes.length);
+    crc32(message.subarray(0, total - 4)).copy(message, total - 4);
+    return message;
+}
+
+function eventMessage(eventType: string, contentType?: string, payload?: Uint8Array): Uint8Array {
+    return encodeMessage({
+        ':message-type': 'event',
+        ':event-type': eventType,
+        ...(contentType ? { ':content-type': contentType } : {}),
+    }, payload);
+}
+
+function errorMessage(error: S3Error): Uint8Array {
+    return encodeMessage({
+        ':message-type': 'error',
+        ':error-code': error.code,
+        ':error-message': error.message,
+    });
+}
+
+/**
+ * Run a parsed query over an object's bytes and return the SelectObjectContent response body:
+ * Records events as results accumulate, then Stats and End. The object is read only as fast
+ * as the client takes results, and a LIMIT stops the scan early. Failures after the response
+ * has started are reported in an error message, as S3 does.
+ */
+export function selectEventStream(source: ReadableStream<Uint8Array>, request: SelectRequest, query: Query): ReadableStream<Uint8Array> {
+    const stats = { bytesScanned: 0, bytesProcessed: 0, bytesReturned: 0 };
+
+    let input = source.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            stats.bytesScanned += chunk.length;
+            controller.enqueue(chunk);
+        },
+    }));
+    if (request.compression === 'GZIP') {
+        // DecompressionStream is typed for any BufferSource in, but bytes in and out is all it sees here
+        input = input.pipeThrough(new DecompressionStream('gzip') as unknown as TransformStream<Uint8Array, Uint8Array>);
+    }
+    const reader = input.getReader();
+
+    const decoder = new TextDecoder();
+    const rows = createRowReader(request.input, query.from);
+    const selection = createSelection(query);
+    const write = createRecordWriter(request.output);
+
+    let pending = '';
+    let lastSent = Date.now();
+
+    const select = (batch: Row[]) => {
+        for (const row of batch) {
+            if (selection.done) break;
+            const record = selection.accept(row);
+            if (record) pending += write(record);
+        }
+    };
+
+    const send = (controller: ReadableStreamDefaultController<Uint8Array>, message: Uint8Array) => {
+        controller.enqueue(message);
+        lastSent = Date.now();
+    };
+
+    const sendRecords = (controller: ReadableStreamDefaultController<Uint8Array>) => {
+        if (!pending) return;
+        const payload = Buffer.from(pending);
+        pending = '';
+        stats.bytesReturned += payload.length;
+        send(controller, eventMessage('Records', 'application/octet-stream', payload));
+    };
+
+    return new ReadableStream<Uint8Array>({
+        // Each pull must enqueue something, so keep reading until there is a message to send
+        async pull(controller) {
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        select(rows.push(decoder.decode()));
+                        select(rows.end());
+                        break;
+                    }
+
+                    stats.bytesProcessed += value.length;
+                    select(rows.push(decoder.decode(value, { stream: true })));
+                    if (selection.done) {
+                        await reader.cancel();
+                        break;
+                    }
+
+                    const idle = Date.now() - lastSent;
+                    if (pending.length >= RECORDS_BATCH_BYTES || (pending && idle >= RECORDS_FLUSH_MS)) {
+                        sendRecords(controller);
+                        return;
+                    }
+                    if (idle >= KEEPALIVE_MS) {
+                        send(controller, request.requestProgress
+                            ? eventMessage('Progress', 'text/xml', Buffer.from(xml.selectStatsPayload('Progress', stats)))
+                            : eventMessage('Cont'));
+                        return;
+                    }
+                }
+
+                const last = selection.finish();
+                if (last) pending += write(last);
+                sendRecords(controller);
+                send(controller, eventMessage('Stats', 'text/xml', Buffer.from(xml.selectStatsPayload('Stats', stats))));
+                send(controller, eventMessage('End'));
+                controller.close();
+            } catch (err) {
+                let error: S3Error;
+                if (isS3Error(err)) {
+                    error = err;
+                } else if (request.compression === 'GZIP') {
+                    error = S3Errors.InvalidCompressionFormat('The object could not be decompressed as GZIP.');
+                } else {
+                    console.error('[Select] Query failed:', err);
+                    error = S3Errors.InternalError();
+                }
+                // Records matched before the failure still go out
+                sendRecords(controller);
+                controller.enqueue(errorMessage(error));
+                controller.close();
+                reader.cancel().catch(() => {});
+            }
+        },
+        cancel() {
+            return reader.cancel();
+        },
+    });
+}
@@ -0,0 +1,410 @@
+import { S3Errors, type S3Error } from '../errors';
+import { expandFrom, memberOf, type FromStep, type OutputRecord, type Row, type SqlValue } from './query';
+
+export interface CsvInput {
+    fileHeaderInfo: 'NONE' | 'USE' | 'IGNORE';
+    /** Lines starting with this are skipped */
+    comments: string;
+    fieldDelimiter: string;
+    recordDelimiter: string;
+    quoteCharacter: string;
+    quoteEscapeCharacter: string;
+}
+
+export interface CsvOutput {
+    quoteFields: 'ALWAYS' | 'ASNEEDED';
+    fieldDelimiter: string;
+    recordDelimiter: string;
+    quoteCharacter: string;
+    quoteEscapeCharacter: string;
+}
+
+export type InputSerialization = { format: 'CSV'; csv: CsvInput } | { format: 'JSON'; type: 'DOCUMENT' | 'LINES' };
+export type OutputSerialization = { format: 'CSV'; csv: CsvOutput } | { format: 'JSON'; recordDelimiter: string };
+
+export interface SelectRequest {
+    expression: string;
+    requestProgress: boolean;
+    compression: 'NONE' | 'GZIP';
+    input: InputSerialization;
+    output: OutputSerialization;
+}
+
+/** Element text exactly as sent — delimiters like `\n` and `\t` are pure whitespace */
+function text(value: unknown): string {
+    return typeof value === 'string' ? value : '';
+}
+
+/** Enumerated values such as `USE` or `GZIP` */
+function keyword(value: unknown, fallback: string): string {
+    return text(value).trim().toUpperCase() || fallback;
+}
+
+function section(value: unknown): Record<string, unknown> | undefined {
+    if (value === undefined) return undefined;
+    // An empty <CSV/> element parses as a string
+    return typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+}
+
+/** A `SelectObjectContentRequest` document, parsed without trimming element text */
+export function parseSelectRequest(parsed: any): SelectRequest | S3Error {
+    const root = section(parsed?.SelectObjectContentRequest);
+    if (!root) return S3Errors.MalformedXML();
+
+    const expression = text(root.Expression).trim();
+    if (!expression) return S3Errors.InvalidArgument('The SQL expression is missing.');
+    if (keyword(root.ExpressionType, '') !== 'SQL') return S3Errors.InvalidExpressionType();
+    if (root.ScanRange !== undefined) return S3Errors.InvalidRequest('ScanRange is not supported.');
+
+    const inputSection = section(root.InputSerialization);
+    const outputSection = section(root.OutputSerialization);
+    if (!inputSection || !outputSection) return S3Errors.MalformedXML();
+
+    const compression = keyword(inputSection.CompressionType, 'NONE');
+    if (compression !== 'NONE' && compression !== 'GZIP') {
+        return S3Errors.InvalidCompressionFormat(`${compression} compression is not supported. Use NONE or GZIP.`);
+    }
+
+    let input: InputSerialization;
+    const csvIn = section(inputSection.CSV);
+    const jsonIn = section(inputSection.JSON);
+    if (csvIn) {
+        const fileHeaderInfo = keyword(csvIn.FileHeaderInfo, 'NONE');
+        if (fileHeaderInfo !== 'NONE' && fileHeaderInfo !== 'USE' && fileHeaderInfo !== 'IGNORE') {
+            return S3Errors.InvalidArgument('FileHeaderInfo must be NONE, USE or IGNORE.');
+        }
+        input = {
+            format: 'CSV',
+            csv: {
+                fileHeaderInfo,
+                comments: csvIn.Comments === undefined ? '#' : text(csvIn.Comments),
+                fieldDelimiter: text(csvIn.FieldDelimiter) || ',',
+                recordDelimiter: text(csvIn.RecordDelimiter) || '\n',
+                quoteCharacter: text(csvIn.QuoteCharacter) || '"',
+                quoteEscapeCharacter: text(csvIn.QuoteEscapeCharacter) || '"',
+            },
+        };
+    } else if (jsonIn) {
+        const type = keyword(jsonIn.Type, '');
+        if (type !== 'DOCUMENT' && type !== 'LINES') return S3Errors.InvalidArgument('JSON Type must be DOCUMENT or LINES.');
+        input = { format: 'JSON', type };
+    } else {
+        return S3Errors.InvalidRequest('Only CSV and JSON input is supported.');
+    }
+
+    let output: OutputSerialization;
+    const csvOut = section(outputSection.CSV);
+    const jsonOut = section(outputSection.JSON);
+    if (csvOut) {
+        const quoteFields = keyword(csvOut.QuoteFields, 'ASNEEDED');
+        if (quoteFields !== 'ALWAYS' && quoteFields !== 'ASNEEDED') return S3Errors.InvalidArgument('QuoteFields must be ALWAYS or ASNEEDED.');
+        output = {
+            format: 'CSV',
+            csv: {
+                quoteFields,
+                fieldDelimiter: text(csvOut.FieldDelimiter) || ',',
+                recordDelimiter: text(csvOut.RecordDelimiter) || '\n',
+                quoteCharacter: text(csvOut.QuoteCharacter) || '"',
+                quoteEscapeCharacter: text(csvOut.QuoteEscapeCharacter) || '"',
+            },
+        };
+    } else if (jsonOut) {
+        output = { format: 'JSON', recordDelimiter: text(jsonOut.RecordDelimiter) || '\n' };
+    } else {
+        return S3Errors.InvalidRequest('OutputSerialization must be CSV or JSON.');
+    }
+
+    const progress = section(root.RequestProgress);
+    return {
+        expression,
+        requestProgress: keyword(progress?.Enabled, 'FALSE') === 'TRUE',
+        compression,
+        input,
+        output,
+    };
+}
+
+// ── Input ──────────────────────────────────────────────────────────────────────
+
+/** Incremental record splitter: feed it decoded text, get back whatever records are complete */
+interface RecordReader<T> {
+    push(text: string): T[];
+    end(): T[];
+}
+
+/**
+ * CSV records split on the configured delimiters. Quoted fields may contain delimiters and
+ * escaped quotes; with the default `\n` record delimiter a preceding `\r` is dropped too.
+ */
+function createCsvParser(options: CsvInput): RecordReader<string[]> {
+    const { fieldDelimiter, recordDelimiter, quoteCharacter, quoteEscapeCharacter, comments } = options;
+    let carry = '';
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let fieldQuoted = false;
+    let inComment = false;
+
+    const parse = (chunk: string, final: boolean): string[][] => {
+        const records: string[][] = [];
+        const s = carry + chunk;
+        // A delimiter or escape sequence may be cut off at the end of the chunk
+        const partial = (i: number, token: string) => !final && i + token.length > s.length && token.startsWith(s.slice(i));
+
+        const endRecord = () => {
+            if (recordDelimiter === '\n' && field.endsWith('\r')) field = field.slice(0, -1);
+            if (fields.length > 0 || field !== '' || fieldQuoted) records.push([...fields, field]);
+            fields = [];
+            field = '';
+            fieldQuoted = false;
+        };
+
+        let i = 0;
+        while (i < s.length) {
+            if (inComment) {
+                const next = s.indexOf(recordDelimiter, i);
+                if (next < 0) {
+                    i = final ? s.length : Math.max(i, s.length - recordDelimiter.length + 1);
+                    break;
+                }
+                i = next + recordDelimiter.length;
+                inComment = false;
+                continue;
+            }
+
+            if (inQuotes) {
+                if (quoteEscapeCharacter !== quoteCharacter && s.startsWith(quoteEscapeCharacter, i)) {
+                    if (i + quoteEscapeCharacter.length >= s.length && !final) break;
+                    field += s[i + quoteEscapeCharacter.length] ?? '';
+                    i += quoteEscapeCharacter.length + 1;
+                    continue;
+                }
+                if (s.startsWith(quoteCharacter, i)) {
+                    // A doubled quote is a literal quote
+                    if (quoteEscapeCharacter === quoteCharacter) {
+                        if (partial(i, quoteCharacter + quoteCharacter)) break;
+                        if (s.startsWith(quoteCharacter, i + quoteCharacter.length)) {
+                            field += quoteCharacter;
+                            i += quoteCharacter.length * 2;
+                            continue;
+                        }
+                    }
+                    inQuotes = false;
+                    i += quoteCharacter.length;
+                    continue;
+                }
+                field += s[i];
+                i++;
+                continue;
+            }
+
+            const atRecordStart = fields.length === 0 && field === '' && !fieldQuoted;
+            if (atRecordStart && comments && s.startsWith(comments, i)) {
+                inComment = true;
+                continue;
+            }
+            if (s.startsWith(recordDelimiter, i)) {
+                endRecord();
+                i += recordDelimiter.length;
+                continue;
+            }
+            if (s.startsWith(fieldDelimiter, i)) {
+                fields.push(field);
+                field = '';
+                fieldQuoted = false;
+                i += fieldDelimiter.length;
+                continue;
+            }
+            if (partial(i, recordDelimiter) || partial(i, fieldDelimiter) || (atRecordStart && comments && partial(i, comments))) break;
+            if (field === '' && !fieldQuoted && s.startsWith(quoteCharacter, i)) {
+                inQuotes = true;
+                fieldQuoted = true;
+                i += quoteCharacter.length;
+                continue;
+            }
+            field += s[i];
+            i++;
+        }
+        carry = s.slice(i);
+
+        if (final) {
+            if (inQuotes) throw S3Errors.CSVParsingError('A quoted field is not terminated at the end of the object.');
+            endRecord();
+        }
+        return records;
+    };
+
+    return {
+        push: (chunk) => parse(chunk, false),
+        end: () => parse('', true),
+    };
+}
+
+function parseJsonRecord(source: string): SqlValue {
+    try {
+        return JSON.parse(source);
+    } catch {
+        throw S3Errors.JSONParsingError(`Invalid JSON record: ${source.length > 64 ? source.slice(0, 64) + '…' : source}`);
+    }
+}
+
+/** JSON Lines: one value per line, blank lines ignored */
+function createJsonLinesParser(): RecordReader<SqlValue> {
+    let carry = '';
+    const parse = (lines: string[]) => lines.filter((line) => line.trim() !== '').map(parseJsonRecord);
+    return {
+        push(chunk) {
+            const lines = (carry + chunk).split('\n');
+            carry = lines.pop()!;
+            return parse(lines);
+        },
+        end() {
+            const rest = carry;
+            carry = '';
+            return parse([rest]);
+        },
+    };
+}
+
+/** JSON DOCUMENT: one or more top-level values back to back, each possibly spanning many lines */
+function createJsonDocumentParser(): RecordReader<SqlValue> {
+    let buffer = '';
+    let index = 0;
+    let start = -1;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    return {
+        push(chunk) {
+            const values: SqlValue[] = [];
+            buffer += chunk;
+            for (; index < buffer.length; index++) {
+                const c = buffer[index]!;
+                if (inString) {
+                    if (escaped) escaped = false;
+                    else if (c === '\\') escaped = true;
+                    else if (c === '"') inString = false;
+                    if (inString || depth > 0) continue;
+                } else if (/\s/.test(c)) {
+                    // Whitespace only ends a bare top-level scalar
+                    if (depth > 0 || start < 0) continue;
+                    values.push(parseJsonRecord(buffer.slice(start, index)));
+                    start = -1;
+                    continue;
+                } else {
+                    if (start < 0) start = index;
+                    if (c === '"') inString = true;
+                    else if (c === '{' || c === '[') depth++;
+                    else if (c === '}' || c === ']') depth--;
+                    if (inString || depth > 0 || (c !== '}' && c !== ']')) continue;
+                }
+                values.push(parseJsonRecord(buffer.slice(start, index + 1)));
+                start = -1;
+            }
+            // Keep only the value still being read
+            const keep = start < 0 ? buffer.length : start;
+            buffer = buffer.slice(keep);
+            index -= keep;
+            if (start >= 0) start = 0;
+            return values;
+        },
+        end() {
+            const rest = buffer.slice(Math.max(start, 0)).trim();
+            buffer = '';
+            if (depth > 0 || inString) throw S3Errors.JSONParsingError('The JSON document ends inside a value.');
+            return rest ? [parseJsonRecord(rest)] : [];
+        },
+    };
+}
+
+/** Header positions by exact name and by lower-cased name; the first of equal names wins */
+interface HeaderIndex {
+    names: string[];
+    exact: Map<string, number>;
+    folded: Map<string, number>;
+}
+
+function indexHeader(names: string[]): HeaderIndex {
+    const index: HeaderIndex = { names, exact: new Map(), folded: new Map() };
+    names.forEach((name, i) => {
+        if (!index.exact.has(name)) index.exact.set(name, i);
+        if (!index.folded.has(name.toLowerCase())) index.folded.set(name.toLowerCase(), i);
+    });
+    return index;
+}
+
+function csvRow(fields: string[], header: HeaderIndex | null): Row {
+    return {
+        column(name, caseSensitive) {
+            const position = /^_(\d+)$/.exec(name);
+            if (position) return fields[parseInt(position[1]!) - 1];
+            const i = caseSensitive ? header?.exact.get(name) : header?.folded.get(name.toLowerCase());
+            return i === undefined ? undefined : fields[i];
+        },
+        columns() {
+            return fields.map((value, i) => [header?.names[i] ?? `_${i + 1}`, value]);
+        },
+    };
+}
+
+function jsonRow(value: SqlValue): Row {
+    return {
+        column: (name, caseSensitive) => memberOf(value, name, caseSensitive),
+        columns() {
+            return typeof value === 'object' && value !== null && !Array.isArray(value) ? Object.entries(value) : [['_1', value]];
+        },
+    };
+}
+
+/** Rows of the object being queried, read incrementally in its input format */
+export function createRowReader(input: InputSerialization, from: FromStep[]): RecordReader<Row> {
+    if (input.format === 'JSON') {
+        const parser = input.type === 'LINES' ? createJsonLinesParser() : createJsonDocumentParser();
+        const rows = (values: SqlValue[]) => values.flatMap((v) => expandFrom(from, v)).map(jsonRow);
+        return {
+            push: (chunk) => rows(parser.push(chunk)),
+            end: () => rows(parser.end()),
+        };
+    }
+
+    const parser = createCsvParser(input.csv);
+    let headerPending = input.csv.fileHeaderInfo !== 'NONE';
+    let header: HeaderIndex | null = null;
+
+    const rows = (records: string[][]): Row[] => {
+        if (headerPending && records.length > 0) {
+            headerPending = false;
+            const first = records.shift()!;
+            if (input.csv.fileHeaderInfo === 'USE') header = indexHeader(first);
+        }
+        return records.map((fields) => csvRow(fields, header));
+    };
+    return {
+        push: (chunk) => rows(parser.push(chunk)),
+        end: () => rows(parser.end()),
+    };
+}
+
+// ── Output ─────────────────────────────────────────────────────────────────────
+
+function outputText(value: SqlValue): string {
+    if (value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+/** Serializes result records in the requested output format */
+export function createRecordWriter(output: OutputSerialization): (record: OutputRecord) => string {
+    if (output.format === 'JSON') {
+        return (record) => JSON.stringify(Object.fromEntries(record)) + output.recordDelimiter;
+    }
+
+    const { quoteFields, fieldDelimiter, recordDelimiter, quoteCharacter, quoteEscapeCharacter } = output.csv;
+    const quote = (value: string) => {
+        const needed = quoteFields === 'ALWAYS' || [fieldDelimiter, recordDelimiter, quoteCharacter, '\n', '\r'].some((s) => value.includes(s));
+        if (!needed) return value;
+        return quoteCharacter + value.split(quoteCharacter).join(quoteEscapeCharacter + quoteCharacter) + quoteCharacter;
+    };
+    return (record) => record.map(([, value]) => quote(outputText(value))).join(fieldDelimiter) + recordDelimiter;
+}
@@ -0,0 +1,894 @@
+import { S3Errors, type S3Error } from '../errors';
+
+/** Values as S3 Select sees them: CSV fields are strings, JSON keeps its own types */
+export type SqlValue = string | number | boolean | null | SqlValue[] | { [key: string]: SqlValue };
+
+/** A record being queried — `undefined` from a lookup is SQL's MISSING */
+export interface Row {
+    /** A top-level column: a CSV header name or `_N` position, or a JSON member */
+    column(name: string, caseSensitive: boolean): SqlValue | undefined;
+    /** Every column in order, as `SELECT *` returns them */
+    columns(): [string, SqlValue][];
+}
+
+/** Column names and values of one result record, in projection order */
+export type OutputRecord = [string, SqlValue][];
+
+/** Unquoted names match case-insensitively, `"quoted"` ones exactly */
+type PathStep = { name: string; quoted: boolean } | { index: number };
+
+/** Step of the FROM path after `S3Object`; a wildcard unnests an array into one row per element */
+export type FromStep = PathStep | { wildcard: true };
+
+type AggregateFunction = 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX';
+type CastType = 'INT' | 'FLOAT' | 'STRING' | 'BOOL';
+type BinaryOperator = 'AND' | 'OR' | '=' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%' | '||';
+
+type Expr =
+    | { kind: 'literal'; value: SqlValue }
+    | { kind: 'column'; path: PathStep[] }
+    | { kind: 'not'; operand: Expr }
+    | { kind: 'negate'; operand: Expr }
+    | { kind: 'binary'; op: BinaryOperator; left: Expr; right: Expr }
+    | { kind: 'like'; operand: Expr; pattern: Expr; escape: Expr | null; negated: boolean }
+    | { kind: 'between'; operand: Expr; low: Expr; high: Expr; negated: boolean }
+    | { kind: 'in'; operand: Expr; list: Expr[]; negated: boolean }
+    | { kind: 'is'; operand: Expr; test: 'NULL' | 'MISSING'; negated: boolean }
+    | { kind: 'cast'; operand: Expr; type: CastType }
+    | { kind: 'call'; name: string; args: Expr[] }
+    | { kind: 'aggregate'; fn: AggregateFunction; operand: Expr | null };
+
+interface SelectItem {
+    expr: Expr;
+    alias: string | null;
+}
+
+export interface Query {
+    /** null for `SELECT *` */
+    projection: SelectItem[] | null;
+    from: FromStep[];
+    where: Expr | null;
+    limit: number | null;
+    /** Every projected expression is built from aggregates, so the query yields a single record */
+    aggregate: boolean;
+}
+
+export function isS3Error(err: unknown): err is S3Error {
+    return typeof err === 'object' && err !== null && 'code' in err && 'statusCode' in err;
+}
+
+// ── Tokenizer ──────────────────────────────────────────────────────────────────
+
+type Token =
+    | { type: 'ident'; value: string; quoted: boolean; pos: number }
+    | { type: 'string'; value: string; pos: number }
+    | { type: 'number'; value: number; pos: number }
+    | { type: 'op'; value: string; pos: number }
+    | { type: 'end'; pos: number };
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '+', '-', '*', '/', '%', '(', ')', ',', '.', '[', ']'];
+
+function tokenize(sql: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < sql.length) {
+        const c = sql[i]!;
+        if (/\s/.test(c)) {
+            i++;
+            continue;
+        }
+
+        // 'string' and "identifier", each doubling its quote to escape it
+        if (c === '\'' || c === '"') {
+            let value = '';
+            let j = i + 1;
+            while (true) {
+                if (j >= sql.length) throw S3Errors.ParseUnexpectedToken(`Unterminated ${c === '"' ? 'quoted identifier' : 'string'} at column ${i + 1}`);
+                if (sql[j] === c) {
+                    if (sql[j + 1] !== c) break;
+                    j++;
+                }
+                value += sql[j];
+                j++;
+            }
+            tokens.push(c === '"' ? { type: 'ident', value, quoted: true, pos: i } : { type: 'string', value, pos: i });
+            i = j + 1;
+            continue;
+        }
+
+        const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(i, i + 64));
+        if (number) {
+            tokens.push({ type: 'number', value: Number(number[0]), pos: i });
+            i += number[0].length;
+            continue;
+        }
+
+        const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(sql.slice(i, i + 256));
+        if (ident) {
+            tokens.push({ type: 'ident', value: ident[0], quoted: false, pos: i });
+            i += ident[0].length;
+            continue;
+        }
+
+        const op = OPERATORS.find((o) => sql.startsWith(o, i));
+        if (!op) throw S3Errors.ParseUnexpectedToken(`Unexpected character '${c}' at column ${i + 1}`);
+        tokens.push({ type: 'op', value: op, pos: i });
+        i += op.length;
+    }
+    tokens.push({ type: 'end', pos: sql.length });
+    return tokens;
+}
+
+// ── Parser ─────────────────────────────────────────────────────────────────────
+
+const RESERVED = new Set([
+    'SELECT', 'FROM', 'WHERE', 'LIMIT', 'AS', 'AND', 'OR', 'NOT', 'LIKE', 'ESCAPE', 'BETWEEN', 'IN', 'IS',
+    'NULL', 'MISSING', 'TRUE', 'FALSE', 'CAST', 'GROUP', 'ORDER', 'BY', 'HAVING', 'JOIN', 'UNION',
+]);
+
+const AGGREGATES: readonly string[] = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+const CAST_TYPES: Record<string, CastType> = {
+    INT: 'INT', INTEGER: 'INT', BIGINT: 'INT', SMALLINT: 'INT',
+    FLOAT: 'FLOAT', REAL: 'FLOAT', DOUBLE: 'FLOAT', DECIMAL: 'FLOAT', NUMERIC: 'FLOAT',
+    STRING: 'STRING', VARCHAR: 'STRING', CHAR: 'STRING',
+    BOOL: 'BOOL', BOOLEAN: 'BOOL',
+};
+
+/** Scalar functions and their [min, max] argument counts */
+const FUNCTIONS: Record<string, [number, number]> = {
+    LOWER: [1, 1],
+    UPPER: [1, 1],
+    CHAR_LENGTH: [1, 1],
+    CHARACTER_LENGTH: [1, 1],
+    SUBSTRING: [2, 3],
+    TRIM: [3, 3],
+    COALESCE: [1, Infinity],
+    NULLIF: [2, 2],
+};
+
+function describe(token: Token): string {
+    switch (token.type) {
+        case 'end': return 'end of expression';
+        case 'string': return `'${token.value}'`;
+        case 'ident': return token.quoted ? `"${token.value}"` : token.value;
+        default: return String(token.value);
+    }
+}
+
+function parseTokens(tokens: Token[]): Query {
+    let pos = 0;
+    let aggregateDepth = 0;
+
+    const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)]!;
+    const isKeyword = (token: Token, word: string) => token.type === 'ident' && !token.quoted && token.value.toUpperCase() === word;
+    const isOp = (token: Token, op: string) => token.type === 'op' && token.value === op;
+
+    const unexpected = (token: Token, expected?: string) =>
+        S3Errors.ParseUnexpectedToken(`Unexpected ${describe(token)} at column ${token.pos + 1}${expected ? `, expected ${expected}` : ''}`);
+
+    const acceptKeyword = (word: string) => {
+        if (!isKeyword(peek(), word)) return false;
+        pos++;
+        return true;
+    };
+    const expectKeyword = (word: string) => {
+        if (!acceptKeyword(word)) throw unexpected(peek(), word);
+    };
+    const acceptOp = (op: string) => {
+        if (!isOp(peek(), op)) return false;
+        pos++;
+        return true;
+    };
+    const expectOp = (op: string) => {
+        if (!acceptOp(op)) throw unexpected(peek(), `'${op}'`);
+    };
+    const acceptOneOf = (ops: string[]): string | null => {
+        const token = peek();
+        if (token.type !== 'op' || !ops.includes(token.value)) return null;
+        pos++;
+        return token.value;
+    };
+    // Reserved words can't start a column reference, but after a dot they are plain member names
+    const isName = (token: Token) => token.type === 'ident' && (token.quoted || !RESERVED.has(token.value.toUpperCase()));
+    const expectName = (member = false): { name: string; quoted: boolean } => {
+        const token = peek();
+        if (token.type !== 'ident' || (!member && !isName(token))) throw unexpected(token, 'a name');
+        pos++;
+        return { name: token.value, quoted: token.quoted };
+    };
+
+    const expression = (): Expr => {
+        let left = conjunction();
+        while (acceptKeyword('OR')) left = { kind: 'binary', op: 'OR', left, right: conjunction() };
+        return left;
+    };
+
+    const conjunction = (): Expr => {
+        let left = negation();
+        while (acceptKeyword('AND')) left = { kind: 'binary', op: 'AND', left, right: negation() };
+        return left;
+    };
+
+    const negation = (): Expr => acceptKeyword('NOT') ? { kind: 'not', operand: negation() } : predicate();
+
+    const predicate = (): Expr => {
+        const operand = concatenation();
+
+        const comparison = acceptOneOf(['=', '!=', '<>', '<', '<=', '>', '>=']);
+        if (comparison) {
+            const op = (comparison === '<>' ? '!=' : comparison) as BinaryOperator;
+            return { kind: 'binary', op, left: operand, right: concatenation() };
+        }
+
+        if (acceptKeyword('IS')) {
+            const negated = acceptKeyword('NOT');
+            if (acceptKeyword('NULL')) return { kind: 'is', operand, test: 'NULL', negated };
+            if (acceptKeyword('MISSING')) return { kind: 'is', operand, test: 'MISSING', negated };
+            throw unexpected(peek(), 'NULL or MISSING');
+        }
+
+        const negated = isKeyword(peek(), 'NOT') && ['LIKE', 'BETWEEN', 'IN'].some((w) => isKeyword(peek(1), w));
+        if (negated) pos++;
+
+        if (acceptKeyword('LIKE')) {
+            const pattern = concatenation();
+            const escape = acceptKeyword('ESCAPE') ? concatenation() : null;
+            return { kind: 'like', operand, pattern, escape, negated };
+        }
+        if (acceptKeyword('BETWEEN')) {
+            const low = concatenation();
+            expectKeyword('AND');
+            return { kind: 'between', operand, low, high: concatenation(), negated };
+        }
+        if (acceptKeyword('IN')) {
+            expectOp('(');
+            const list = [expression()];
+            while (acceptOp(',')) list.push(expression());
+            expectOp(')');
+            return { kind: 'in', operand, list, negated };
+        }
+        return operand;
+    };
+
+    const concatenation = (): Expr => {
+        let left = additive();
+        while (acceptOp('||')) left = { kind: 'binary', op: '||', left, right: additive() };
+        return left;
+    };
+
+    const additive = (): Expr => {
+        let left = multiplicative();
+        let op: string | null;
+        while ((op = acceptOneOf(['+', '-']))) left = { kind: 'binary', op: op as BinaryOperator, left, right: multiplicative() };
+        return left;
+    };
+
+    const multiplicative = (): Expr => {
+        let left = unary();
+        let op: string | null;
+        while ((op = acceptOneOf(['*', '/', '%']))) left = { kind: 'binary', op: op as BinaryOperator, left, right: unary() };
+        return left;
+    };
+
+    const unary = (): Expr => {
+        if (acceptOp('-')) return { kind: 'negate', operand: unary() };
+        if (acceptOp('+')) return unary();
+        return primary();
+    };
+
+    const primary = (): Expr => {
+        const token = peek();
+        if (token.type === 'number' || token.type === 'string') {
+            pos++;
+            return { kind: 'literal', value: token.value };
+        }
+        if (acceptOp('(')) {
+            const inner = expression();
+            expectOp(')');
+            return inner;
+        }
+        if (token.type !== 'ident') throw unexpected(token, 'an expression');
+
+        if (!token.quoted) {
+            const word = token.value.toUpperCase();
+            if (word === 'TRUE' || word === 'FALSE') {
+                pos++;
+                return { kind: 'literal', value: word === 'TRUE' };
+            }
+            if (word === 'NULL') {
+                pos++;
+                return { kind: 'literal', value: null };
+            }
+            if (word === 'CAST') {
+                pos++;
+                expectOp('(');
+                const operand = expression();
+                expectKeyword('AS');
+                const typeToken = peek();
+                const type = typeToken.type === 'ident' ? CAST_TYPES[typeToken.value.toUpperCase()] : undefined;
+                if (!type) throw S3Errors.UnsupportedSqlStructure(`CAST to ${describe(typeToken)} is not supported`);
+                pos++;
+                expectOp(')');
+                return { kind: 'cast', operand, type };
+            }
+            if (isOp(peek(1), '(')) {
+                pos += 2;
+                return call(word);
+            }
+        }
+        return column();
+    };
+
+    const call = (name: string): Expr => {
+        if (AGGREGATES.includes(name)) {
+            if (aggregateDepth > 0) throw S3Errors.UnsupportedSqlStructure('Aggregate functions cannot be nested');
+            if (name === 'COUNT' && acceptOp('*')) {
+                expectOp(')');
+                return { kind: 'aggregate', fn: 'COUNT', operand: null };
+            }
+            aggregateDepth++;
+            const operand = expression();
+            aggregateDepth--;
+            expectOp(')');
+            return { kind: 'aggregate', fn: name as AggregateFunction, operand };
+        }
+
+        const arity = FUNCTIONS[name];
+        if (!arity) throw S3Errors.UnsupportedFunction(name);
+
+        const args: Expr[] = [];
+        if (name === 'SUBSTRING') {
+            // SUBSTRING(s FROM start [FOR length]) or SUBSTRING(s, start [, length])
+            args.push(expression());
+            if (acceptKeyword('FROM')) {
+                args.push(expression());
+                if (acceptKeyword('FOR')) args.push(expression());
+            } else {
+                while (acceptOp(',')) args.push(expression());
+            }
+        } else if (name === 'TRIM') {
+            // TRIM([LEADING | TRAILING | BOTH] [characters] FROM s) or TRIM(s)
+            const mode = ['LEADING', 'TRAILING', 'BOTH'].find((w) => acceptKeyword(w)) ?? 'BOTH';
+            let characters: Expr = { kind: 'literal', value: ' ' };
+            let target: Expr;
+            if (acceptKeyword('FROM')) {
+                target = expression();
+            } else {
+                target = expression();
+                if (acceptKeyword('FROM')) {
+                    characters = target;
+                    target = expression();
+                }
+            }
+            args.push(target, characters, { kind: 'literal', value: mode });
+        } else if (!isOp(peek(), ')')) {
+            args.push(expression());
+            while (acceptOp(',')) args.push(expression());
+        }
+        expectOp(')');
+
+        if (args.length < arity[0] || args.length > arity[1]) {
+            throw S3Errors.InvalidArgument(`Wrong number of arguments to ${name}`);
+        }
+        return { kind: 'call', name, args };
+    };
+
+    const column = (): Expr => {
+        const path: PathStep[] = [expectName()];
+        while (true) {
+            if (acceptOp('.')) {
+                path.push(expectName(true));
+            } else if (acceptOp('[')) {
+                const token = peek();
+                if (token.type === 'number' && Number.isInteger(token.value)) {
+                    path.push({ index: token.value });
+                } else if (token.type === 'string') {
+                    path.push({ name: token.value, quoted: true });
+                } else {
+                    throw unexpected(token, 'an array index or member name');
+                }
+                pos++;
+                expectOp(']');
+            } else {
+                return { kind: 'column', path };
+            }
+        }
+    };
+
+    // SELECT
+    expectKeyword('SELECT');
+    let projection: SelectItem[] | null = null;
+    const isStar = () => isOp(peek(), '*') || (peek().type === 'ident' && isOp(peek(1), '.') && isOp(peek(2), '*'));
+    if (isStar()) {
+        pos += isOp(peek(), '*') ? 1 : 3;
+    } else {
+        projection = [];
+        do {
+            const expr = expression();
+            let alias: string | null = null;
+            if (acceptKeyword('AS') || isName(peek())) alias = expectName().name;
+            projection.push({ expr, alias });
+        } while (acceptOp(','));
+    }
+
+    // FROM S3Object[*].path [AS] alias
+    expectKeyword('FROM');
+    if (!isKeyword(peek(), 'S3OBJECT')) throw unexpected(peek(), 'S3Object');
+    pos++;
+    const from: FromStep[] = [];
+    while (true) {
+        if (acceptOp('.')) {
+            from.push(expectName(true));
+        } else if (acceptOp('[')) {
+            const token = peek();
+            if (isOp(token, '*')) {
+                from.push({ wildcard: true });
+            } else if (token.type === 'number' && Number.isInteger(token.value)) {
+                from.push({ index: token.value });
+            } else {
+                throw unexpected(token, "'*' or an array index");
+            }
+            pos++;
+            expectOp(']');
+        } else {
+            break;
+        }
+    }
+    // S3Object[*] on its own just means every record
+    if (from.length > 0 && 'wildcard' in from[0]!) from.shift();
+
+    const alias = acceptKeyword('AS') || isName(peek()) ? expectName().name : null;
+
+    const where = acceptKeyword('WHERE') ? expression() : null;
+
+    let limit: number | null = null;
+    if (acceptKeyword('LIMIT')) {
+        const token = peek();
+        if (token.type !== 'number' || !Number.isInteger(token.value)) throw unexpected(token, 'a row count');
+        limit = token.value;
+        pos++;
+    }
+
+    if (peek().type !== 'end') throw unexpected(peek());
+
+    // `s.name` and `S3Object.name` refer to the record's own columns
+    const qualifiers = ['s3object', ...(alias ? [alias.toLowerCase()] : [])];
+    const expressions = [...(projection ?? []).map((item) => item.expr), ...(where ? [where] : [])];
+    for (const expr of expressions) {
+        walk(expr, (e) => {
+            const first = e.kind === 'column' ? e.path[0] : undefined;
+            if (e.kind === 'column' && e.path.length > 1 && first && 'name' in first && qualifiers.includes(first.name.toLowerCase())) {
+                e.path.shift();
+            }
+        });
+    }
+
+    if (where && containsAggregate(where)) {
+        throw S3Errors.UnsupportedSqlStructure('Aggregate functions are not allowed in the WHERE clause');
+    }
+    const aggregate = !!projection && projection.some((item) => containsAggregate(item.expr));
+    if (aggregate && projection!.some((item) => hasColumnOutsideAggregate(item.expr))) {
+        throw S3Errors.UnsupportedSqlStructure('A query with aggregate functions can only select aggregates');
+    }
+
+    return { projection, from, where, limit, aggregate };
+}
+
+/**
+ * Parse the supported subset of S3 Select SQL: `SELECT` of columns, expressions or aggregates
+ * (COUNT, SUM, AVG, MIN, MAX) `FROM S3Object`, with optional `WHERE` and `LIMIT`.
+ */
+export function parseQuery(sql: string): Query | S3Error {
+    try {
+        return parseTokens(tokenize(sql));
+    } catch (err) {
+        if (isS3Error(err)) return err;
+        throw err;
+    }
+}
+
+function children(expr: Expr): Expr[] {
+    switch (expr.kind) {
+        case 'literal':
+        case 'column':
+            return [];
+        case 'not':
+        case 'negate':
+        case 'is':
+        case 'cast':
+            return [expr.operand];
+        case 'binary':
+            return [expr.left, expr.right];
+        case 'like':
+            return expr.escape ? [expr.operand, expr.pattern, expr.escape] : [expr.operand, expr.pattern];
+        case 'between':
+            return [expr.operand, expr.low, expr.high];
+        case 'in':
+            return [expr.operand, ...expr.list];
+        case 'call':
+            return expr.args;
+        case 'aggregate':
+            return expr.operand ? [expr.operand] : [];
+    }
+}
+
+function walk(expr: Expr, visit: (e: Expr) => void): void {
+    visit(expr);
+    for (const child of children(expr)) walk(child, visit);
+}
+
+function containsAggregate(expr: Expr): boolean {
+    return expr.kind === 'aggregate' || children(expr).some(containsAggregate);
+}
+
+function hasColumnOutsideAggregate(expr: Expr): boolean {
+    if (expr.kind === 'aggregate') return false;
+    return expr.kind === 'column' || children(expr).some(hasColumnOutsideAggregate);
+}
+
+// ── Evaluation ─────────────────────────────────────────────────────────────────
+
+function isRecord(value: SqlValue | undefined): value is { [key: string]: SqlValue } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Member of a JSON object; unquoted names fall back to a case-insensitive match */
+export function memberOf(value: SqlValue | undefined, name: string, caseSensitive: boolean): SqlValue | undefined {
+    if (!isRecord(value)) return undefined;
+    if (Object.hasOwn(value, name)) return value[name];
+    if (caseSensitive) return undefined;
+    const lower = name.toLowerCase();
+    const key = Object.keys(value).find((k) => k.toLowerCase() === lower);
+    return key === undefined ? undefined : value[key];
+}
+
+function step(value: SqlValue | undefined, pathStep: PathStep): SqlValue | undefined {
+    if ('index' in pathStep) return Array.isArray(value) ? value[pathStep.index] : undefined;
+    return memberOf(value, pathStep.name, pathStep.quoted);
+}
+
+/** The rows a JSON record contributes under the query's FROM path */
+export function expandFrom(from: FromStep[], value: SqlValue): SqlValue[] {
+    let values: SqlValue[] = [value];
+    for (const fromStep of from) {
+        values = values.flatMap((v): SqlValue[] => {
+            if ('wildcard' in fromStep) return Array.isArray(v) ? v : [];
+            const next = step(v, fromStep);
+            return next === undefined ? [] : [next];
+        });
+    }
+    return values;
+}
+
+/** CSV fields are text, so numeric strings take part in arithmetic and comparisons as numbers */
+function toNumber(value: SqlValue | undefined): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const n = Number(value);
+        return Number.isFinite(n) ? n : null;
+    }
+    return null;
+}
+
+function toBoolean(value: SqlValue | undefined): boolean | null {
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'string') {
+        const lower = value.toLowerCase();
+        if (lower === 'true') return true;
+        if (lower === 'false') return false;
+    }
+    return null;
+}
+
+function toText(value: SqlValue | undefined): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'string') return value;
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+/** Order of two values, or null when either is NULL/MISSING or they can't be compared */
+function compare(a: SqlValue | undefined, b: SqlValue | undefined): number | null {
+    if (a === null || a === undefined || b === null || b === undefined) return null;
+    if (typeof a === 'number' || typeof b === 'number') {
+        const x = toNumber(a);
+        const y = toNumber(b);
+        return x === null || y === null ? null : Math.sign(x - y);
+    }
+    if (typeof a === 'boolean' || typeof b === 'boolean') {
+        const x = toBoolean(a);
+        const y = toBoolean(b);
+        return x === null || y === null ? null : Number(x) - Number(y);
+    }
+    if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+    return JSON.stringify(a) === JSON.stringify(b) ? 0 : null;
+}
+
+function cast(value: SqlValue | undefined, type: CastType): SqlValue {
+    if (value === null || value === undefined) return null;
+    const fail = () => S3Errors.CastFailed(`Cannot cast ${JSON.stringify(value)} to ${type}`);
+    switch (type) {
+        case 'INT':
+        case 'FLOAT': {
+            const n = typeof value === 'boolean' ? Number(value) : toNumber(value);
+            if (n === null) throw fail();
+            return type === 'INT' ? Math.trunc(n) : n;
+        }
+        case 'STRING':
+            return toText(value);
+        case 'BOOL': {
+            if (typeof value === 'number') return value !== 0;
+            const b = toBoolean(value);
+            if (b === null) throw fail();
+            return b;
+        }
+    }
+}
+
+const likePatterns = new WeakMap<Expr, RegExp>();
+
+function likeRegExp(pattern: string, escape: string | null): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const c = pattern[i]!;
+        if (escape && c === escape && i + 1 < pattern.length) {
+            source += pattern[++i]!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else if (c === '%') {
+            source += '[\\s\\S]*';
+        } else if (c === '_') {
+            source += '[\\s\\S]';
+        } else {
+            source += c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function callFunction(name: string, args: (SqlValue | undefined)[]): SqlValue {
+    switch (name) {
+        case 'LOWER':
+        case 'UPPER': {
+            const text = toText(args[0]);
+            if (text === null) return null;
+            return name === 'LOWER' ? text.toLowerCase() : text.toUpperCase();
+        }
+        case 'CHAR_LENGTH':
+        case 'CHARACTER_LENGTH': {
+            const text = toText(args[0]);
+            return text === null ? null : [...text].length;
+        }
+        case 'SUBSTRING': {
+            const chars = toText(args[0]);
+            const start = toNumber(args[1]);
+            if (chars === null || start === null) return null;
+            const length = args.length > 2 ? toNumber(args[2]) : null;
+            if (args.length > 2 && length === null) return null;
+            // 1-based, and a start before 1 still counts towards the length
+            const from = Math.trunc(start) - 1;
+            const to = length === null ? Infinity : from + Math.trunc(length);
+            return [...chars].slice(Math.max(from, 0), Math.max(to, 0)).join('');
+        }
+        case 'TRIM': {
+            const text = toText(args[0]);
+            const characters = toText(args[1]);
+            if (text === null || characters === null) return null;
+            const set = new Set([...characters]);
+            const chars = [...text];
+            let start = 0;
+            let end = chars.length;
+            if (args[2] !== 'TRAILING') while (start < end && set.has(chars[start]!)) start++;
+            if (args[2] !== 'LEADING') while (end > start && set.has(chars[end - 1]!)) end--;
+            return chars.slice(start, end).join('');
+        }
+        case 'COALESCE':
+            return args.find((a) => a !== null && a !== undefined) ?? null;
+        case 'NULLIF':
+            return compare(args[0], args[1]) === 0 ? null : args[0] ?? null;
+    }
+    throw S3Errors.UnsupportedFunction(name);
+}
+
+function evaluate(expr: Expr, row: Row | null, aggregates?: Map<Expr, SqlValue>): SqlValue | undefined {
+    switch (expr.kind) {
+        case 'literal':
+            return expr.value;
+        case 'column': {
+            const [first, ...rest] = expr.path;
+            if (!row || !first || !('name' in first)) return undefined;
+            let value = row.column(first.name, first.quoted);
+            for (const pathStep of rest) value = step(value, pathStep);
+            return value;
+        }
+        case 'not': {
+            const b = toBoolean(evaluate(expr.operand, row, aggregates));
+            return b === null ? null : !b;
+        }
+        case 'negate': {
+            const n = toNumber(evaluate(expr.operand, row, aggregates));
+            return n === null ? null : -n;
+        }
+        case 'binary':
+            return evaluateBinary(expr.op, expr.left, expr.right, row, aggregates);
+        case 'like': {
+            const text = toText(evaluate(expr.operand, row, aggregates));
+            const pattern = toText(evaluate(expr.pattern, row, aggregates));
+            const escape = expr.escape ? toText(evaluate(expr.escape, row, aggregates)) : null;
+            if (text === null || pattern === null) return null;
+            // Literal patterns are compiled once per query
+            let regExp = likePatterns.get(expr);
+            if (!regExp) {
+                regExp = likeRegExp(pattern, escape);
+                if (expr.pattern.kind === 'literal' && (!expr.escape || expr.escape.kind === 'literal')) likePatterns.set(expr, regExp);
+            }
+            return regExp.test(text) !== expr.negated;
+        }
+        case 'between': {
+            const value = evaluate(expr.operand, row, aggregates);
+            const low = compare(value, evaluate(expr.low, row, aggregates));
+            const high = compare(value, evaluate(expr.high, row, aggregates));
+            if (low === null || high === null) return null;
+            return (low >= 0 && high <= 0) !== expr.negated;
+        }
+        case 'in': {
+            const value = evaluate(expr.operand, row, aggregates);
+            let unknown = false;
+            for (const item of expr.list) {
+                const order = compare(value, evaluate(item, row, aggregates));
+                if (order === 0) return !expr.negated;
+                if (order === null) unknown = true;
+            }
+            return unknown ? null : expr.negated;
+        }
+        case 'is': {
+            const value = evaluate(expr.operand, row, aggregates);
+            const matches = expr.test === 'MISSING' ? value === undefined : value === null || value === undefined;
+            return matches !== expr.negated;
+        }
+        case 'cast':
+            return cast(evaluate(expr.operand, row, aggregates), expr.type);
+        case 'call':
+            return callFunction(expr.name, expr.args.map((a) => evaluate(a, row, aggregates)));
+        case 'aggregate':
+            return aggregates?.get(expr) ?? null;
+    }
+}
+
+function evaluateBinary(op: BinaryOperator, leftExpr: Expr, rightExpr: Expr, row: Row | null, aggregates?: Map<Expr, SqlValue>): SqlValue {
+    // Three-valued logic: NULL only decides the result when no operand does
+    if (op === 'AND' || op === 'OR') {
+        const decisive = op === 'OR';
+        const left = toBoolean(evaluate(leftExpr, row, aggregates));
+        if (left === decisive) return decisive;
+        const right = toBoolean(evaluate(rightExpr, row, aggregates));
+        if (right === decisive) return decisive;
+        return left === null || right === null ? null : !decisive;
+    }
+
+    const left = evaluate(leftExpr, row, aggregates);
+    const right = evaluate(rightExpr, row, aggregates);
+
+    if (op === '||') {
+        const a = toText(left);
+        const b = toText(right);
+        return a === null || b === null ? null : a + b;
+    }
+
+    if (op === '+' || op === '-' || op === '*' || op === '/' || op === '%') {
+        const a = toNumber(left);
+        const b = toNumber(right);
+        if (a === null || b === null) return null;
+        switch (op) {
+            case '+': return a + b;
+            case '-': return a - b;
+            case '*': return a * b;
+            case '/': return b === 0 ? null : a / b;
+            case '%': return b === 0 ? null : a % b;
+        }
+    }
+
+    const order = compare(left, right);
+    if (order === null) return null;
+    switch (op) {
+        case '=': return order === 0;
+        case '!=': return order !== 0;
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        default: return order >= 0;
+    }
+}
+
+// ── Selection ──────────────────────────────────────────────────────────────────
+
+interface Accumulator {
+    count: number;
+    sum: number;
+    best: SqlValue;
+}
+
+function aggregateResult(fn: AggregateFunction, acc: Accumulator): SqlValue {
+    switch (fn) {
+        case 'COUNT': return acc.count;
+        case 'SUM': return acc.count > 0 ? acc.sum : null;
+        case 'AVG': return acc.count > 0 ? acc.sum / acc.count : null;
+        default: return acc.best;
+    }
+}
+
+function outputName(item: SelectItem, position: number): string {
+    if (item.alias) return item.alias;
+    const last = item.expr.kind === 'column' ? item.expr.path[item.expr.path.length - 1] : undefined;
+    return last && 'name' in last ? last.name : `_${position + 1}`;
+}
+
+export interface Selection {
+    /** The record a row produces, if it passes WHERE — aggregate queries only produce one in finish() */
+    accept(row: Row): OutputRecord | null;
+    finish(): OutputRecord | null;
+    /** LIMIT has been reached, so no further row can change the result */
+    readonly done: boolean;
+}
+
+export function createSelection(query: Query): Selection {
+    const limit = query.limit ?? Infinity;
+    let emitted = 0;
+
+    const aggregateExprs: Extract<Expr, { kind: 'aggregate' }>[] = [];
+    for (const item of query.projection ?? []) {
+        walk(item.expr, (e) => {
+            if (e.kind === 'aggregate') aggregateExprs.push(e);
+        });
+    }
+    const accumulators = new Map(aggregateExprs.map((e) => [e, { count: 0, sum: 0, best: null } as Accumulator]));
+
+    const project = (row: Row | null, aggregates?: Map<Expr, SqlValue>): OutputRecord => {
+        if (!query.projection) return row ? row.columns() : [];
+        return query.projection.map((item, i) => [outputName(item, i), evaluate(item.expr, row, aggregates) ?? null]);
+    };
+
+    const accumulate = (row: Row) => {
+        for (const [expr, acc] of accumulators) {
+            if (!expr.operand) {
+                acc.count++;
+                continue;
+            }
+            const value = evaluate(expr.operand, row);
+            if (value === null || value === undefined) continue;
+            if (expr.fn === 'COUNT') {
+                acc.count++;
+            } else if (expr.fn === 'SUM' || expr.fn === 'AVG') {
+                const n = toNumber(value);
+                if (n === null) continue;
+                acc.sum += n;
+                acc.count++;
+            } else if (value !== '') {
+                // An empty CSV field holds no value to compare
+                const candidate = toNumber(value) ?? value;
+                const order = acc.best === null ? null : compare(candidate, acc.best);
+                if (acc.best === null || (order !== null && (expr.fn === 'MIN' ? order < 0 : order > 0))) acc.best = candidate;
+            }
+        }
+    };
+
+    return {
+        accept(row) {
+            if (emitted >= limit) return null;
+            if (query.where && toBoolean(evaluate(query.where, row)) !== true) return null;
+            if (query.aggregate) {
+                accumulate(row);
+                return null;
+            }
+            emitted++;
+            return project(row);
+        },
+        finish() {
+            if (!query.aggregate || limit === 0) return null;
+            const results = new Map<Expr, SqlValue>(aggregateExprs.map((e) => [e, aggregateResult(e.fn, accumulators.get(e)!)]));
+            return project(null, results);
+        },
+        get done() {
+            return !query.aggregate && emitted >= limit;
+        },
+    };
+}
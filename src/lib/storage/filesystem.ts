@@ -1,7 +1,9 @@
-import { mkdir, writeFile, readFile, unlink, stat, readdir, rename, rm } from 'node:fs/promises';
+import { mkdir, writeFile, readFile, unlink, stat, readdir, rename, rm, open } from 'node:fs/promises';
 import { join, dirname, resolve } from 'node:path';
 import { createReadStream, existsSync } from 'node:fs';
+import { createHash } from 'node:crypto';
 import { env } from '../../config/env';
+import { decryptObjectData, decryptObjectRange } from '../encryption';
 
 const basePath = resolve(env.storagePath);
 
@@ -27,12 +29,57 @@ function getBucketPath(bucket: string): string {
     return resolved;
 }
 
+/**
+ * Noncurrent object versions live outside the bucket tree, keyed by a hash of the
+ * object key so that arbitrarily deep or long keys map to a single directory.
+ */
+function getVersionPath(bucket: string, key: string, versionId: string): string {
+    const keyHash = createHash('sha256').update(key).digest('hex');
+    const resolved = resolve(join(basePath, '.versions', bucket, keyHash, versionId));
+    assertWithinBase(resolved);
+    return resolved;
+}
+
 function getMultipartPath(uploadId: string, partNumber: number): string {
     const resolved = resolve(join(basePath, '.multipart', uploadId, `part-${partNumber}`));
     assertWithinBase(resolved);
     return resolved;
 }
 
+function fileStream(filePath: string, range?: { start: number; end: number }): ReadableStream<Uint8Array> {
+    const nodeStream = createReadStream(filePath, range);
+    return new ReadableStream({
+        start(controller) {
+            nodeStream.on('data', (chunk: Buffer) => {
+                controller.enqueue(new Uint8Array(chunk));
+                // Read at the consumer's pace rather than queueing the whole file in memory
+                if ((controller.desiredSize ?? 0) <= 0) nodeStream.pause();
+            });
+            nodeStream.on('end', () => controller.close());
+            nodeStream.on('error', (err) => controller.error(err));
+        },
+        pull() {
+            nodeStream.resume();
+        },
+        cancel() {
+            nodeStream.destroy();
+        },
+    });
+}
+
+async function readEncryptedRange(filePath: string, encryptionKey: Buffer, range: { start: number; end: number }): Promise<Buffer> {
+    const handle = await open(filePath, 'r');
+    try {
+        return await decryptObjectRange(async (position, length) => {
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buffer, 0, length, position);
+            return buffer.subarray(0, bytesRead);
+        }, encryptionKey, range);
+    } finally {
+        await handle.close();
+    }
+}
+
 export const storage = {
     async createBucket(bucket: string): Promise<void> {
         await ensureDir(getBucketPath(bucket));
@@ -43,6 +90,10 @@ export const storage = {
         if (existsSync(bucketPath)) {
             await rm(bucketPath, { recursive: true, force: true });
         }
+        const versionsPath = resolve(join(basePath, '.versions', bucket));
+        if (existsSync(versionsPath)) {
+            await rm(versionsPath, { recursive: true, force: true });
+        }
     },
 
     async writeObject(bucket: string, key: string, data: Buffer | Uint8Array): Promise<{ size: number; storagePath: string }> {
@@ -77,22 +128,30 @@ export const storage = {
         return { size: data.length, storagePath: filePath };
     },
 
-    async readObject(bucket: string, key: string, range?: { start: number; end: number }): Promise<{ body: Uint8Array | ReadableStream; size: number }> {
-        const filePath = getObjectPath(bucket, key);
+    /**
+     * Pass `versionId` to read a noncurrent version instead of the current object, and
+     * `encryptionKey` for data written encrypted — ranges then apply to the plaintext.
+     */
+    async readObject(
+        bucket: string,
+        key: string,
+        range?: { start: number; end: number },
+        versionId?: string,
+        encryptionKey?: Buffer,
+    ): Promise<{ body: Uint8Array | ReadableStream; size: number }> {
+        const filePath = versionId ? getVersionPath(bucket, key, versionId) : getObjectPath(bucket, key);
+
+        if (encryptionKey) {
+            const body = range
+                ? await readEncryptedRange(filePath, encryptionKey, range)
+                : decryptObjectData(await readFile(filePath), encryptionKey);
+            return { body: new Uint8Array(body), size: body.length };
+        }
+
         const fileStat = await stat(filePath);
 
         if (range) {
-            const nodeStream = createReadStream(filePath, { start: range.start, end: range.end });
-            const stream = new ReadableStream({
-                start(controller) {
-                    nodeStream.on('data', (chunk: Buffer) => controller.enqueue(new Uint8Array(chunk)));
-                    nodeStream.on('end', () => controller.close());
-                    nodeStream.on('error', (err) => controller.error(err));
-                },
-                cancel() {
-                    nodeStream.destroy();
-                },
-            });
+            const stream = fileStream(filePath, { start: range.start, end: range.end });
             return { body: stream, size: range.end - range.start + 1 };
         }
 
@@ -100,9 +159,50 @@ export const storage = {
         return { body: new Uint8Array(data), size: fileStat.size };
     },
 
-    async readObjectAsBuffer(bucket: string, key: string): Promise<Buffer> {
-        const filePath = getObjectPath(bucket, key);
-        return readFile(filePath);
+    /** The whole object as a stream; encrypted data is decrypted in one piece */
+    async openObjectStream(bucket: string, key: string, versionId?: string, encryptionKey?: Buffer): Promise<ReadableStream<Uint8Array>> {
+        const filePath = versionId ? getVersionPath(bucket, key, versionId) : getObjectPath(bucket, key);
+
+        if (encryptionKey) {
+            const data = new Uint8Array(decryptObjectData(await readFile(filePath), encryptionKey));
+            return new ReadableStream({
+                start(controller) {
+                    controller.enqueue(data);
+                    controller.close();
+                },
+            });
+        }
+
+        // Fail before a response has started rather than mid-stream
+        await stat(filePath);
+        return fileStream(filePath);
+    },
+
+    /** With a `range`, only those bytes (or, encrypted, the frames holding them) are read from disk */
+    async readObjectAsBuffer(
+        bucket: string,
+        key: string,
+        versionId?: string,
+        encryptionKey?: Buffer,
+        range?: { start: number; end: number },
+    ): Promise<Buffer> {
+        const filePath = versionId ? getVersionPath(bucket, key, versionId) : getObjectPath(bucket, key);
+
+        if (range && !encryptionKey) {
+            const handle = await open(filePath, 'r');
+            try {
+                const buffer = Buffer.alloc(range.end - range.start + 1);
+                const { bytesRead } = await handle.read(buffer, 0, buffer.length, range.start);
+                return buffer.subarray(0, bytesRead);
+            } finally {
+                await handle.close();
+            }
+        }
+
+        if (range && encryptionKey) return readEncryptedRange(filePath, encryptionKey, range);
+
+        const data = await readFile(filePath);
+        return encryptionKey ? decryptObjectData(data, encryptionKey) : data;
     },
 
     async deleteObject(bucket: string, key: string): Promise<void> {
@@ -117,6 +217,40 @@ export const storage = {
         }
     },
 
+    /** Versioning helpers */
+    async archiveObjectVersion(bucket: string, key: string, versionId: string): Promise<string> {
+        const filePath = getObjectPath(bucket, key);
+        const versionPath = getVersionPath(bucket, key, versionId);
+        await ensureDir(dirname(versionPath));
+
+        // Folder markers are directories holding other objects — leave them in place
+        if (existsSync(filePath) && (await stat(filePath)).isFile()) {
+            await rename(filePath, versionPath);
+        } else {
+            await writeFile(versionPath, Buffer.alloc(0));
+        }
+        return versionPath;
+    },
+
+    async restoreObjectVersion(bucket: string, key: string, versionId: string): Promise<string> {
+        const versionPath = getVersionPath(bucket, key, versionId);
+        const filePath = getObjectPath(bucket, key);
+
+        if (key.endsWith('/')) {
+            await ensureDir(filePath);
+            await rm(versionPath, { force: true });
+            return filePath;
+        }
+
+        await ensureDir(dirname(filePath));
+        await rename(versionPath, filePath);
+        return filePath;
+    },
+
+    async deleteObjectVersion(bucket: string, key: string, versionId: string): Promise<void> {
+        await rm(getVersionPath(bucket, key, versionId), { force: true });
+    },
+
     async copyObject(srcBucket: string, srcKey: string, dstBucket: string, dstKey: string): Promise<void> {
         const srcPath = getObjectPath(srcBucket, srcKey);
         const dstPath = getObjectPath(dstBucket, dstKey);
@@ -176,6 +310,27 @@ export const storage = {
         }
     },
 
+    /** Bytes currently held on disk by an upload's parts */
+    async getMultipartSize(uploadId: string): Promise<number> {
+        const multipartDir = join(basePath, '.multipart', uploadId);
+        if (!existsSync(multipartDir)) return 0;
+        return getDirSize(multipartDir);
+    },
+
+    /** Every upload directory under .multipart, including ones with no database record */
+    async listMultipartDirectories(): Promise<{ uploadId: string; mtime: Date }[]> {
+        const multipartRoot = join(basePath, '.multipart');
+        if (!existsSync(multipartRoot)) return [];
+        const entries = await readdir(multipartRoot, { withFileTypes: true });
+        const result: { uploadId: string; mtime: Date }[] = [];
+        for (const entry of entries) {
+            if (!entry.isDirectory()) continue;
+            const s = await stat(join(multipartRoot, entry.name));
+            result.push({ uploadId: entry.name, mtime: s.mtime });
+        }
+        return result;
+    },
+
     /** Get total storage usage in bytes */
     async getTotalStorageUsed(): Promise<number> {
         if (!existsSync(basePath)) return 0;
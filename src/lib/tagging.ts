@@ -0,0 +1,100 @@
+import { eq, inArray, count } from 'drizzle-orm';
+import { db } from '../db/connection';
+import { objectTags } from '../db/schema';
+import { xml } from './xml/builder';
+
+export interface Tag {
+    key: string;
+    value: string;
+}
+
+const MAX_OBJECT_TAGS = 10;
+export const MAX_BUCKET_TAGS = 50;
+const MAX_KEY_LENGTH = 128;
+const MAX_VALUE_LENGTH = 256;
+
+/** Check a tag set against S3's limits. Returns an error message, or null when the set is valid. */
+export function validateTags(tags: Tag[], maxTags = MAX_OBJECT_TAGS): string | null {
+    if (tags.length > maxTags) return `Tags cannot be greater than ${maxTags}`;
+
+    const seen = new Set<string>();
+    for (const tag of tags) {
+        if (tag.key.length === 0 || tag.key.length > MAX_KEY_LENGTH) return 'The TagKey you have provided is invalid';
+        if (tag.value.length > MAX_VALUE_LENGTH) return 'The TagValue you have provided is invalid';
+        if (tag.key.toLowerCase().startsWith('aws:')) return 'Your TagKey cannot be prefixed with aws:';
+        if (seen.has(tag.key)) return 'Cannot provide multiple Tags with the same key';
+        seen.add(tag.key);
+    }
+    return null;
+}
+
+/** Tag set stored as JSON on a bucket or multipart upload row */
+export function parseStoredTags(stored: string | null): Tag[] {
+    if (!stored) return [];
+    try {
+        return JSON.parse(stored);
+    } catch {
+        return [];
+    }
+}
+
+/** Parse the URL-encoded `x-amz-tagging` header (`k1=v1&k2=v2`) */
+export function parseTaggingHeader(header: string): Tag[] {
+    const tags: Tag[] = [];
+    new URLSearchParams(header).forEach((value, key) => tags.push({ key, value }));
+    return tags;
+}
+
+/** Parse a Tagging XML body. Returns null when the document is invalid. */
+export function parseTaggingXml(body: string): Tag[] | null {
+    let parsed: any;
+    try {
+        parsed = xml.parse(body);
+    } catch {
+        return null;
+    }
+
+    const tagSet = parsed?.Tagging?.TagSet;
+    if (tagSet === undefined) return null;
+
+    const tags: Tag[] = [];
+    for (const node of xml.asArray(tagSet.Tag)) {
+        if (node?.Key === undefined) return null;
+        tags.push({ key: String(node.Key), value: String(node.Value ?? '') });
+    }
+    return tags;
+}
+
+export async function getObjectTags(objectId: number): Promise<Tag[]> {
+    const rows = await db.select().from(objectTags)
+        .where(eq(objectTags.objectId, objectId))
+        .orderBy(objectTags.id);
+    return rows.map((r) => ({ key: r.tagKey, value: r.tagValue }));
+}
+
+/** Tags for many object versions at once, keyed by object row ID */
+export async function getObjectTagsBatch(objectIds: number[]): Promise<Map<number, Record<string, string>>> {
+    const result = new Map<number, Record<string, string>>();
+    if (objectIds.length === 0) return result;
+
+    const rows = await db.select().from(objectTags).where(inArray(objectTags.objectId, objectIds));
+    for (const row of rows) {
+        const tags = result.get(row.objectId) || {};
+        tags[row.tagKey] = row.tagValue;
+        result.set(row.objectId, tags);
+    }
+    return result;
+}
+
+export async function countObjectTags(objectId: number): Promise<number> {
+    const [row] = await db.select({ count: count() }).from(objectTags)
+        .where(eq(objectTags.objectId, objectId));
+    return row?.count ?? 0;
+}
+
+/** Replace the whole tag set of an object version */
+export async function setObjectTags(objectId: number, tags: Tag[]): Promise<void> {
+    await db.delete(objectTags).where(eq(objectTags.objectId, objectId));
+    if (tags.length === 0) return;
+    await db.insert(objectTags).values(tags.map((t) => ({ objectId, tagKey: t.key, tagValue: t.value })));
+}
@@ -0,0 +1,164 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { eq, and, desc } from 'drizzle-orm';
+import { db, lockPool } from '../db/connection';
+import { buckets, objects } from '../db/schema';
+import { storage } from './storage/filesystem';
+
+type BucketRecord = typeof buckets.$inferSelect;
+type ObjectRecord = typeof objects.$inferSelect;
+
+/** Version ID used for objects written while versioning is unset or suspended */
+export const NULL_VERSION_ID = 'null';
+
+export function generateVersionId(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+/** Look up a specific version of a key, or its current version when no versionId is given */
+export async function findObjectVersion(bucketId: number, key: string, versionId?: string | null): Promise<ObjectRecord | undefined> {
+    const [obj] = await db.select().from(objects)
+        .where(and(
+            eq(objects.bucketId, bucketId),
+            eq(objects.key, key),
+            versionId ? eq(objects.versionId, versionId) : eq(objects.isLatest, true),
+        ))
+        .limit(1);
+    return obj;
+}
+
+const keyWriteLocks = new Map<string, Promise<void>>();
+// How long a writer waits for another server process to finish with the same key
+const KEY_LOCK_TIMEOUT_SECONDS = 30;
+
+/**
+ * Run `fn` holding the write lock on one key, once earlier writers of that key are done.
+ * Every change to which version of a key is current must go through it. Writers in this
+ * process queue in memory; the one whose turn it is then takes a MySQL named lock, so
+ * server processes sharing the database exclude each other too. With `wait` false a key
+ * that is being written right now yields null instead: conditional writes answer that as
+ * a conflict rather than judging a state about to change.
+ */
+export async function withKeyWriteLock<T>(bucketId: number, key: string, fn: () => Promise<T>, wait = true): Promise<T | null> {
+    const id = `${bucketId}/${key}`;
+    while (keyWriteLocks.has(id)) {
+        if (!wait) return null;
+        await keyWriteLocks.get(id);
+    }
+
+    let release!: () => void;
+    keyWriteLocks.set(id, new Promise((resolve) => { release = resolve; }));
+    // Named locks are limited to 64 characters, keys are not
+    const lockName = `s3:key:${createHash('sha1').update(id).digest('hex')}`;
+    const connection = await lockPool.getConnection();
+    try {
+        const [rows] = await connection.query('SELECT GET_LOCK(?, ?) AS acquired', [lockName, wait ? KEY_LOCK_TIMEOUT_SECONDS : 0]);
+        if ((rows as { acquired: number | null }[])[0]?.acquired !== 1) {
+            if (!wait) return null;
+            throw new Error(`Timed out waiting for the write lock on ${id}`);
+        }
+        try {
+            return await fn();
+        } finally {
+            await connection.query('SELECT RELEASE_LOCK(?)', [lockName]);
+        }
+    } finally {
+        connection.release();
+        keyWriteLocks.delete(id);
+        release();
+    }
+}
+
+/**
+ * Make room for a new current version of `key`. In an Enabled bucket the current version
+ * is archived; otherwise the existing "null" version is discarded first (the caller is
+ * expected to overwrite or delete its data on disk if it was current).
+ * Returns the version ID the new object or delete marker must be stored under.
+ * Like the deletes below, it must run under the key's write lock.
+ */
+export async function supersedeCurrentVersion(bucket: BucketRecord, key: string): Promise<string> {
+    let current = await findObjectVersion(bucket.id, key);
+
+    if (bucket.versioning !== 'Enabled') {
+        const nullVersion = await findObjectVersion(bucket.id, key, NULL_VERSION_ID);
+        if (nullVersion) {
+            if (!nullVersion.isLatest && !nullVersion.isDeleteMarker) {
+                await storage.deleteObjectVersion(bucket.name, key, NULL_VERSION_ID);
+            }
+            await db.delete(objects).where(eq(objects.id, nullVersion.id));
+            if (current?.id === nullVersion.id) current = undefined;
+        }
+    }
+
+    if (current) {
+        const storagePath = current.isDeleteMarker
+            ? current.storagePath
+            : await storage.archiveObjectVersion(bucket.name, key, current.versionId);
+        // Keep last_modified intact — the column auto-updates on any write
+        await db.update(objects).set({
+            isLatest: false,
+            storagePath,
+            lastModified: current.lastModified,
+        }).where(eq(objects.id, current.id));
+    }
+
+    return bucket.versioning === 'Enabled' ? generateVersionId() : NULL_VERSION_ID;
+}
+
+/**
+ * DeleteObject without a versionId. Unversioned buckets remove the object outright;
+ * versioned buckets get a delete marker as the new current version.
+ */
+export async function deleteCurrentVersion(bucket: BucketRecord, key: string): Promise<{ deleteMarker: boolean; versionId?: string }> {
+    const current = await findObjectVersion(bucket.id, key);
+    if (current && !current.isDeleteMarker && bucket.versioning !== 'Enabled' && current.versionId === NULL_VERSION_ID) {
+        await storage.deleteObject(bucket.name, key);
+    }
+
+    const versionId = await supersedeCurrentVersion(bucket, key);
+    if (!bucket.versioning) return { deleteMarker: false };
+
+    await db.insert(objects).values({
+        bucketId: bucket.id,
+        key,
+        size: 0,
+        etag: '',
+        storagePath: '',
+        versionId,
+        isLatest: true,
+        isDeleteMarker: true,
+    });
+    return { deleteMarker: true, versionId };
+}
+
+/**
+ * Permanently remove one version. When the current version goes away, the most
+ * recent remaining version (object or delete marker) becomes current again.
+ */
+export async function deleteSpecificVersion(bucket: BucketRecord, version: ObjectRecord): Promise<void> {
+    if (!version.isDeleteMarker) {
+        if (version.isLatest) {
+            await storage.deleteObject(bucket.name, version.key);
+        } else {
+            await storage.deleteObjectVersion(bucket.name, version.key, version.versionId);
+        }
+    }
+    await db.delete(objects).where(eq(objects.id, version.id));
+
+    if (!version.isLatest) return;
+
+    const [previous] = await db.select().from(objects)
+        .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, version.key)))
+        .orderBy(desc(objects.id))
+        .limit(1);
+
+    if (previous) {
+        const storagePath = previous.isDeleteMarker
+            ? previous.storagePath
+            : await storage.restoreObjectVersion(bucket.name, previous.key, previous.versionId);
+        await db.update(objects).set({
+            isLatest: true,
+            storagePath,
+            lastModified: previous.lastModified,
+        }).where(eq(objects.id, previous.id));
+    }
+}
@@ -0,0 +1,49 @@
+import { env } from '../config/env';
+
+/** A virtual-hosted request after it was re-dispatched in path style */
+export interface VirtualHostRequest {
+    bucket: string;
+    /** The path the client sent — and signed — without the bucket */
+    path: string;
+    /** The client address, which the re-dispatched request no longer carries */
+    clientIp: string | undefined;
+}
+
+const rewrittenRequests = new WeakMap<Request, VirtualHostRequest>();
+
+/** The host the client addressed, restored from x-forwarded-host behind a reverse proxy */
+export function requestHost(request: Request): string {
+    const forwarded = request.headers.get('x-forwarded-host');
+    return (forwarded ? forwarded.split(',')[0]!.trim() : request.headers.get('host')) || new URL(request.url).host;
+}
+
+/** Bucket name when the request targets <bucket>.<S3_BASE_DOMAIN> */
+export function bucketFromVirtualHost(host: string): string | null {
+    if (!env.s3BaseDomain) return null;
+    const hostname = host.split(':')[0]!.toLowerCase();
+    const suffix = `.${env.s3BaseDomain}`;
+    return hostname.endsWith(suffix) && hostname.length > suffix.length ? hostname.slice(0, -suffix.length) : null;
+}
+
+/**
+ * The path-style form of a `<bucket>.<S3_BASE_DOMAIN>/<key>` request: `/<bucket>/<key>` with
+ * the same method, headers and body. Null when the request is not virtual-hosted, or is
+ * already the rewritten one.
+ */
+export function toPathStyleRequest(request: Request, clientIp: string | undefined): Request | null {
+    if (rewrittenRequests.has(request)) return null;
+    const bucket = bucketFromVirtualHost(requestHost(request));
+    if (bucket === null) return null;
+
+    const url = new URL(request.url);
+    // The bucket root is `/<bucket>`, not `/<bucket>/` — an empty key
+    const path = url.pathname === '/' ? '' : url.pathname;
+    const rewritten = new Request(new URL(`/${encodeURIComponent(bucket)}${path}${url.search}`, url).toString(), request);
+    rewrittenRequests.set(rewritten, { bucket, path: url.pathname, clientIp });
+    return rewritten;
+}
+
+/** How a re-dispatched request was originally addressed, or undefined for a path-style request */
+export function virtualHostOf(request: Request): VirtualHostRequest | undefined {
+    return rewrittenRequests.get(request);
+}
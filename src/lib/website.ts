@@ -0,0 +1,115 @@
+import { xml } from './xml/builder';
+
+export interface RoutingRule {
+    condition?: {
+        keyPrefixEquals?: string;
+        httpErrorCodeReturnedEquals?: string;
+    };
+    redirect: {
+        hostName?: string;
+        protocol?: 'http' | 'https';
+        replaceKeyPrefixWith?: string;
+        replaceKeyWith?: string;
+        httpRedirectCode?: string;
+    };
+}
+
+export interface WebsiteConfiguration {
+    indexDocument?: string;
+    errorDocument?: string;
+    redirectAllRequestsTo?: { hostName: string; protocol?: 'http' | 'https' };
+    routingRules: RoutingRule[];
+}
+
+const PROTOCOLS = ['http', 'https'];
+const MAX_ROUTING_RULES = 50;
+
+/** Parse a WebsiteConfiguration XML body. Returns null when the document is invalid. */
+export function parseWebsiteConfiguration(body: string): WebsiteConfiguration | null {
+    let parsed: any;
+    try {
+        parsed = xml.parse(body);
+    } catch {
+        return null;
+    }
+
+    const node = parsed?.WebsiteConfiguration;
+    if (!node) return null;
+
+    const config: WebsiteConfiguration = { routingRules: [] };
+
+    if (node.RedirectAllRequestsTo) {
+        const { HostName, Protocol } = node.RedirectAllRequestsTo;
+        if (!HostName) return null;
+        if (Protocol !== undefined && !PROTOCOLS.includes(Protocol)) return null;
+        // RedirectAllRequestsTo excludes every other element
+        if (node.IndexDocument || node.ErrorDocument || node.RoutingRules) return null;
+        config.redirectAllRequestsTo = { hostName: String(HostName), ...(Protocol ? { protocol: Protocol } : {}) };
+        return config;
+    }
+
+    const suffix = node.IndexDocument?.Suffix;
+    if (!suffix || String(suffix).includes('/')) return null;
+    config.indexDocument = String(suffix);
+
+    if (node.ErrorDocument) {
+        if (!node.ErrorDocument.Key) return null;
+        config.errorDocument = String(node.ErrorDocument.Key);
+    }
+
+    const ruleNodes = xml.asArray(node.RoutingRules?.RoutingRule);
+    if (ruleNodes.length > MAX_ROUTING_RULES) return null;
+    for (const ruleNode of ruleNodes) {
+        const redirect = ruleNode.Redirect;
+        if (!redirect) return null;
+        if (redirect.Protocol !== undefined && !PROTOCOLS.includes(redirect.Protocol)) return null;
+        if (redirect.ReplaceKeyPrefixWith !== undefined && redirect.ReplaceKeyWith !== undefined) return null;
+        if (redirect.HttpRedirectCode !== undefined && !/^3\d\d$/.test(String(redirect.HttpRedirectCode))) return null;
+
+        const rule: RoutingRule = {
+            redirect: {
+                hostName: redirect.HostName !== undefined ? String(redirect.HostName) : undefined,
+                protocol: redirect.Protocol,
+                replaceKeyPrefixWith: redirect.ReplaceKeyPrefixWith !== undefined ? String(redirect.ReplaceKeyPrefixWith) : undefined,
+                replaceKeyWith: redirect.ReplaceKeyWith !== undefined ? String(redirect.ReplaceKeyWith) : undefined,
+                httpRedirectCode: redirect.HttpRedirectCode !== undefined ? String(redirect.HttpRedirectCode) : undefined,
+            },
+        };
+        const condition = ruleNode.Condition;
+        if (condition) {
+            rule.condition = {
+                keyPrefixEquals: condition.KeyPrefixEquals !== undefined ? String(condition.KeyPrefixEquals) : undefined,
+                httpErrorCodeReturnedEquals: condition.HttpErrorCodeReturnedEquals !== undefined
+                    ? String(condition.HttpErrorCodeReturnedEquals)
+                    : undefined,
+            };
+        }
+        config.routingRules.push(rule);
+    }
+
+    return config;
+}
+
+/**
+ * First routing rule whose condition holds for this key. Without `errorCode` only rules
+ * that don't depend on an error are considered (they apply before the object is looked up).
+ */
+export function findRoutingRule(rules: RoutingRule[], key: string, errorCode?: number): RoutingRule | undefined {
+    return rules.find((rule) => {
+        const prefix = rule.condition?.keyPrefixEquals;
+        const code = rule.condition?.httpErrorCodeReturnedEquals;
+        if (prefix !== undefined && !key.startsWith(prefix)) return false;
+        if (errorCode === undefined) return code === undefined;
+        return code === String(errorCode);
+    });
+}
+
+/** Key a routing rule redirects to */
+export function rewriteKey(rule: RoutingRule, key: string): string {
+    if (rule.redirect.replaceKeyWith !== undefined) return rule.redirect.replaceKeyWith;
+    if (rule.redirect.replaceKeyPrefixWith !== undefined) {
+        const prefix = rule.condition?.keyPrefixEquals || '';
+        return rule.redirect.replaceKeyPrefixWith + key.slice(prefix.length);
+    }
+    return key;
+}
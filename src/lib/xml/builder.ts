@@ -1,4 +1,12 @@
 import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import type { LifecycleRule } from '../lifecycle';
+import type { CorsRule } from '../cors';
+import type { Tag } from '../tagging';
+import type { ObjectLockConfiguration, RetentionMode } from '../object-lock';
+import type { WebsiteConfiguration } from '../website';
+import type { NotificationTarget } from '../notifications';
+import type { BucketEncryption } from '../encryption';
+import type { Checksum } from '../checksums';
 
 const builder = new XMLBuilder({
     ignoreAttributes: false,
@@ -10,6 +18,17 @@ const builder = new XMLBuilder({
 const parser = new XMLParser({
     ignoreAttributes: false,
     attributeNamePrefix: '@_',
+    // Keep element text as strings — keys and tag values like "007" must round-trip unchanged
+    parseTagValue: false,
+});
+
+// SelectObjectContent delimiters are whitespace such as `\n` or `&#9;`
+const verbatimParser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    trimValues: false,
+    htmlEntities: true,
 });
 
 const S3_XMLNS = 'http://s3.amazonaws.com/doc/2006-03-01/';
@@ -27,11 +46,62 @@ interface ObjectInfo {
     storageClass?: string;
 }
 
+interface VersionInfo {
+    key: string;
+    versionId: string;
+    isLatest: boolean;
+    isDeleteMarker: boolean;
+    lastModified: Date;
+    etag: string;
+    size: number;
+}
+
 interface PartInfo {
     partNumber: number;
     lastModified: Date;
     etag: string;
     size: number;
+    checksum?: Checksum | null;
+}
+
+interface UploadInfo {
+    key: string;
+    uploadId: string;
+    initiated: Date;
+    checksumAlgorithm?: string | null;
+}
+
+interface ObjectAttributes {
+    etag?: string;
+    checksum?: Checksum | null;
+    objectParts?: {
+        totalPartsCount: number;
+        partNumberMarker: number;
+        nextPartNumberMarker?: number;
+        maxParts: number;
+        isTruncated: boolean;
+        parts: { partNumber: number; size: number; checksum: Checksum | null }[];
+    };
+    storageClass?: string;
+    objectSize?: number;
+}
+
+interface SelectStats {
+    bytesScanned: number;
+    bytesProcessed: number;
+    bytesReturned: number;
+}
+
+interface DeletedInfo {
+    key: string;
+    versionId?: string;
+    deleteMarker?: boolean;
+    deleteMarkerVersionId?: string;
+}
+
+/** `<ChecksumCRC32>` etc., or nothing */
+function checksumElement(checksum?: Checksum | null): Record<string, string> {
+    return checksum ? { [`Checksum${checksum.algorithm}`]: checksum.value } : {};
 }
 
 export const xml = {
@@ -39,6 +109,17 @@ export const xml = {
         return parser.parse(xmlString);
     },
 
+    /** Like parse(), but element text keeps its whitespace and character references are decoded */
+    parseVerbatim(xmlString: string): any {
+        return verbatimParser.parse(xmlString);
+    },
+
+    /** Repeated elements parse to an array, single ones to a value, absent or empty ones to undefined/'' */
+    asArray<T = any>(value: T | T[] | undefined | null | ''): T[] {
+        if (value === undefined || value === null || value === '') return [];
+        return Array.isArray(value) ? value : [value];
+    },
+
     xmlDeclaration(): string {
         return '<?xml version="1.0" encoding="UTF-8"?>';
     },
@@ -166,6 +247,73 @@ export const xml = {
         return this.xmlDeclaration() + '\n' + builder.build(obj);
     },
 
+    listObjectVersionsResponse(params: {
+        name: string;
+        prefix: string;
+        delimiter?: string;
+        maxKeys: number;
+        isTruncated: boolean;
+        keyMarker: string;
+        versionIdMarker: string;
+        nextKeyMarker?: string;
+        nextVersionIdMarker?: string;
+        versions: VersionInfo[];
+        commonPrefixes?: string[];
+    }): string {
+        const obj: any = {
+            ListVersionsResult: {
+                '@_xmlns': S3_XMLNS,
+                Name: params.name,
+                Prefix: params.prefix || '',
+                KeyMarker: params.keyMarker || '',
+                VersionIdMarker: params.versionIdMarker || '',
+                MaxKeys: params.maxKeys,
+                IsTruncated: params.isTruncated,
+            },
+        };
+
+        if (params.delimiter) {
+            obj.ListVersionsResult.Delimiter = params.delimiter;
+        }
+        if (params.nextKeyMarker) {
+            obj.ListVersionsResult.NextKeyMarker = params.nextKeyMarker;
+        }
+        if (params.nextVersionIdMarker) {
+            obj.ListVersionsResult.NextVersionIdMarker = params.nextVersionIdMarker;
+        }
+
+        const versions = params.versions.filter((v) => !v.isDeleteMarker);
+        const deleteMarkers = params.versions.filter((v) => v.isDeleteMarker);
+
+        if (versions.length > 0) {
+            obj.ListVersionsResult.Version = versions.map((v) => ({
+                Key: v.key,
+                VersionId: v.versionId,
+                IsLatest: v.isLatest,
+                LastModified: v.lastModified.toISOString(),
+                ETag: `"${v.etag}"`,
+                Size: v.size,
+                StorageClass: 'STANDARD',
+            }));
+        }
+        if (deleteMarkers.length > 0) {
+            obj.ListVersionsResult.DeleteMarker = deleteMarkers.map((v) => ({
+                Key: v.key,
+                VersionId: v.versionId,
+                IsLatest: v.isLatest,
+                LastModified: v.lastModified.toISOString(),
+            }));
+        }
+
+        if (params.commonPrefixes && params.commonPrefixes.length > 0) {
+            obj.ListVersionsResult.CommonPrefixes = params.commonPrefixes.map((p) => ({
+                Prefix: p,
+            }));
+        }
+
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
     initiateMultipartUploadResponse(bucket: string, key: string, uploadId: string): string {
         const obj = {
             InitiateMultipartUploadResult: {
@@ -178,7 +326,7 @@ export const xml = {
         return this.xmlDeclaration() + '\n' + builder.build(obj);
     },
 
-    completeMultipartUploadResponse(location: string, bucket: string, key: string, etag: string): string {
+    completeMultipartUploadResponse(location: string, bucket: string, key: string, etag: string, checksum?: Checksum | null): string {
         const obj = {
             CompleteMultipartUploadResult: {
                 '@_xmlns': S3_XMLNS,
@@ -186,11 +334,66 @@ export const xml = {
                 Bucket: bucket,
                 Key: key,
                 ETag: `"${etag}"`,
+                ...checksumElement(checksum),
             },
         };
         return this.xmlDeclaration() + '\n' + builder.build(obj);
     },
 
+    listMultipartUploadsResponse(params: {
+        bucket: string;
+        prefix: string;
+        delimiter?: string;
+        maxUploads: number;
+        isTruncated: boolean;
+        keyMarker: string;
+        uploadIdMarker: string;
+        nextKeyMarker?: string;
+        nextUploadIdMarker?: string;
+        uploads: UploadInfo[];
+        commonPrefixes?: string[];
+    }): string {
+        const obj: any = {
+            ListMultipartUploadsResult: {
+                '@_xmlns': S3_XMLNS,
+                Bucket: params.bucket,
+                KeyMarker: params.keyMarker || '',
+                UploadIdMarker: params.uploadIdMarker || '',
+                Prefix: params.prefix || '',
+                MaxUploads: params.maxUploads,
+                IsTruncated: params.isTruncated,
+            },
+        };
+
+        if (params.delimiter) {
+            obj.ListMultipartUploadsResult.Delimiter = params.delimiter;
+        }
+        if (params.nextKeyMarker) {
+            obj.ListMultipartUploadsResult.NextKeyMarker = params.nextKeyMarker;
+        }
+        if (params.nextUploadIdMarker) {
+            obj.ListMultipartUploadsResult.NextUploadIdMarker = params.nextUploadIdMarker;
+        }
+
+        if (params.uploads.length > 0) {
+            obj.ListMultipartUploadsResult.Upload = params.uploads.map((u) => ({
+                Key: u.key,
+                UploadId: u.uploadId,
+                StorageClass: 'STANDARD',
+                Initiated: u.initiated.toISOString(),
+                ...(u.checksumAlgorithm ? { ChecksumAlgorithm: u.checksumAlgorithm } : {}),
+            }));
+        }
+
+        if (params.commonPrefixes && params.commonPrefixes.length > 0) {
+            obj.ListMultipartUploadsResult.CommonPrefixes = params.commonPrefixes.map((p) => ({
+                Prefix: p,
+            }));
+        }
+
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
     listPartsResponse(params: {
         bucket: string;
         key: string;
@@ -198,6 +401,9 @@ export const xml = {
         parts: PartInfo[];
         isTruncated: boolean;
         maxParts: number;
+        partNumberMarker: number;
+        nextPartNumberMarker?: number;
+        checksumAlgorithm?: string | null;
     }): string {
         const obj: any = {
             ListPartsResult: {
@@ -205,35 +411,122 @@ export const xml = {
                 Bucket: params.bucket,
                 Key: params.key,
                 UploadId: params.uploadId,
+                PartNumberMarker: params.partNumberMarker,
                 MaxParts: params.maxParts,
                 IsTruncated: params.isTruncated,
+                StorageClass: 'STANDARD',
             },
         };
 
+        if (params.nextPartNumberMarker !== undefined) {
+            obj.ListPartsResult.NextPartNumberMarker = params.nextPartNumberMarker;
+        }
+        if (params.checksumAlgorithm) {
+            obj.ListPartsResult.ChecksumAlgorithm = params.checksumAlgorithm;
+        }
+
         if (params.parts.length > 0) {
             obj.ListPartsResult.Part = params.parts.map((p) => ({
                 PartNumber: p.partNumber,
                 LastModified: p.lastModified.toISOString(),
                 ETag: `"${p.etag}"`,
                 Size: p.size,
+                ...checksumElement(p.checksum),
             }));
         }
 
         return this.xmlDeclaration() + '\n' + builder.build(obj);
     },
 
-    copyObjectResponse(etag: string, lastModified: Date): string {
+    /** Body of a POST Object upload answered with `success_action_status` 201 */
+    postResponse(location: string, bucket: string, key: string, etag: string): string {
+        const obj = {
+            PostResponse: {
+                Location: location,
+                Bucket: bucket,
+                Key: key,
+                ETag: `"${etag}"`,
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    copyObjectResponse(etag: string, lastModified: Date, checksum?: Checksum | null): string {
         const obj = {
             CopyObjectResult: {
                 '@_xmlns': S3_XMLNS,
                 ETag: `"${etag}"`,
                 LastModified: lastModified.toISOString(),
+                ...checksumElement(checksum),
             },
         };
         return this.xmlDeclaration() + '\n' + builder.build(obj);
     },
 
-    deleteObjectsResponse(deleted: { key: string }[], errors: { key: string; code: string; message: string }[]): string {
+    /** Only the attributes that were asked for are set — the rest are left out */
+    objectAttributesResponse(attributes: ObjectAttributes): string {
+        const obj: any = {
+            GetObjectAttributesResponse: {
+                '@_xmlns': S3_XMLNS,
+            },
+        };
+        const result = obj.GetObjectAttributesResponse;
+
+        if (attributes.etag !== undefined) result.ETag = attributes.etag;
+        if (attributes.checksum) {
+            result.Checksum = {
+                ...checksumElement(attributes.checksum),
+                ChecksumType: attributes.checksum.value.includes('-') ? 'COMPOSITE' : 'FULL_OBJECT',
+            };
+        }
+        if (attributes.objectParts) {
+            const parts = attributes.objectParts;
+            result.ObjectParts = {
+                TotalPartsCount: parts.totalPartsCount,
+                PartNumberMarker: parts.partNumberMarker,
+                ...(parts.nextPartNumberMarker !== undefined ? { NextPartNumberMarker: parts.nextPartNumberMarker } : {}),
+                MaxParts: parts.maxParts,
+                IsTruncated: parts.isTruncated,
+                ...(parts.parts.length > 0 ? {
+                    Part: parts.parts.map((p) => ({
+                        PartNumber: p.partNumber,
+                        Size: p.size,
+                        ...checksumElement(p.checksum),
+                    })),
+                } : {}),
+            };
+        }
+        if (attributes.storageClass !== undefined) result.StorageClass = attributes.storageClass;
+        if (attributes.objectSize !== undefined) result.ObjectSize = attributes.objectSize;
+
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    /** Payload of a SelectObjectContent `Stats` or `Progress` event */
+    selectStatsPayload(event: 'Stats' | 'Progress', stats: SelectStats): string {
+        const obj = {
+            [event]: {
+                BytesScanned: stats.bytesScanned,
+                BytesProcessed: stats.bytesProcessed,
+                BytesReturned: stats.bytesReturned,
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    copyPartResponse(etag: string, lastModified: Date, checksum?: Checksum | null): string {
+        const obj = {
+            CopyPartResult: {
+                '@_xmlns': S3_XMLNS,
+                ETag: `"${etag}"`,
+                LastModified: lastModified.toISOString(),
+                ...checksumElement(checksum),
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    deleteObjectsResponse(deleted: DeletedInfo[], errors: { key: string; code: string; message: string }[]): string {
         const obj: any = {
             DeleteResult: {
                 '@_xmlns': S3_XMLNS,
@@ -241,7 +534,12 @@ export const xml = {
         };
 
         if (deleted.length > 0) {
-            obj.DeleteResult.Deleted = deleted.map((d) => ({ Key: d.key }));
+            obj.DeleteResult.Deleted = deleted.map((d) => ({
+                Key: d.key,
+                VersionId: d.versionId,
+                DeleteMarker: d.deleteMarker,
+                DeleteMarkerVersionId: d.deleteMarkerVersionId,
+            }));
         }
         if (errors.length > 0) {
             obj.DeleteResult.Error = errors.map((e) => ({
@@ -266,6 +564,182 @@ export const xml = {
         return this.xmlDeclaration() + '\n' + builder.build(obj);
     },
 
+    versioningConfigurationResponse(status?: string | null): string {
+        const obj: any = {
+            VersioningConfiguration: {
+                '@_xmlns': S3_XMLNS,
+            },
+        };
+        if (status) obj.VersioningConfiguration.Status = status;
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    lifecycleConfigurationResponse(rules: LifecycleRule[]): string {
+        const obj = {
+            LifecycleConfiguration: {
+                '@_xmlns': S3_XMLNS,
+                Rule: rules.map((r) => {
+                    const tags = r.tags.map((t) => ({ Key: t.key, Value: t.value }));
+                    let filter: any = { Prefix: r.prefix };
+                    if (tags.length === 1 && !r.prefix) {
+                        filter = { Tag: tags[0] };
+                    } else if (tags.length > 0) {
+                        filter = { And: { Prefix: r.prefix || undefined, Tag: tags } };
+                    }
+
+                    const rule: any = { ID: r.id, Filter: filter, Status: r.status };
+                    if (r.expirationDays) rule.Expiration = { Days: r.expirationDays };
+                    if (r.expirationDate) rule.Expiration = { Date: r.expirationDate };
+                    if (r.abortIncompleteMultipartUploadDays) {
+                        rule.AbortIncompleteMultipartUpload = { DaysAfterInitiation: r.abortIncompleteMultipartUploadDays };
+                    }
+                    return rule;
+                }),
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    corsConfigurationResponse(rules: CorsRule[]): string {
+        const obj = {
+            CORSConfiguration: {
+                '@_xmlns': S3_XMLNS,
+                CORSRule: rules.map((r) => ({
+                    ID: r.id,
+                    AllowedOrigin: r.allowedOrigins,
+                    AllowedMethod: r.allowedMethods,
+                    AllowedHeader: r.allowedHeaders,
+                    ExposeHeader: r.exposeHeaders,
+                    MaxAgeSeconds: r.maxAgeSeconds,
+                })),
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    taggingResponse(tags: Tag[]): string {
+        const obj = {
+            Tagging: {
+                '@_xmlns': S3_XMLNS,
+                TagSet: {
+                    Tag: tags.map((t) => ({ Key: t.key, Value: t.value })),
+                },
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    objectLockConfigurationResponse(config: ObjectLockConfiguration): string {
+        const retention = config.defaultRetention;
+        const obj = {
+            ObjectLockConfiguration: {
+                '@_xmlns': S3_XMLNS,
+                ObjectLockEnabled: 'Enabled',
+                Rule: retention ? {
+                    DefaultRetention: {
+                        Mode: retention.mode,
+                        Days: retention.days,
+                        Years: retention.years,
+                    },
+                } : undefined,
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    retentionResponse(mode: RetentionMode, retainUntilDate: Date): string {
+        const obj = {
+            Retention: {
+                '@_xmlns': S3_XMLNS,
+                Mode: mode,
+                RetainUntilDate: retainUntilDate.toISOString(),
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    legalHoldResponse(legalHold: boolean): string {
+        const obj = {
+            LegalHold: {
+                '@_xmlns': S3_XMLNS,
+                Status: legalHold ? 'ON' : 'OFF',
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    websiteConfigurationResponse(config: WebsiteConfiguration): string {
+        const obj = {
+            WebsiteConfiguration: {
+                '@_xmlns': S3_XMLNS,
+                RedirectAllRequestsTo: config.redirectAllRequestsTo ? {
+                    HostName: config.redirectAllRequestsTo.hostName,
+                    Protocol: config.redirectAllRequestsTo.protocol,
+                } : undefined,
+                IndexDocument: config.indexDocument ? { Suffix: config.indexDocument } : undefined,
+                ErrorDocument: config.errorDocument ? { Key: config.errorDocument } : undefined,
+                RoutingRules: config.routingRules.length > 0 ? {
+                    RoutingRule: config.routingRules.map((r) => ({
+                        Condition: r.condition ? {
+                            KeyPrefixEquals: r.condition.keyPrefixEquals,
+                            HttpErrorCodeReturnedEquals: r.condition.httpErrorCodeReturnedEquals,
+                        } : undefined,
+                        Redirect: {
+                            HostName: r.redirect.hostName,
+                            Protocol: r.redirect.protocol,
+                            ReplaceKeyPrefixWith: r.redirect.replaceKeyPrefixWith,
+                            ReplaceKeyWith: r.redirect.replaceKeyWith,
+                            HttpRedirectCode: r.redirect.httpRedirectCode,
+                        },
+                    })),
+                } : undefined,
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    notificationConfigurationResponse(targets: NotificationTarget[]): string {
+        const section = (kind: NotificationTarget['kind'], element: string) => {
+            const entries = targets.filter((t) => t.kind === kind);
+            if (entries.length === 0) return undefined;
+            return entries.map((t) => ({
+                Id: t.id,
+                [element]: t.url,
+                Event: t.events,
+                Filter: t.prefix !== undefined || t.suffix !== undefined ? {
+                    S3Key: {
+                        FilterRule: [
+                            ...(t.prefix !== undefined ? [{ Name: 'prefix', Value: t.prefix }] : []),
+                            ...(t.suffix !== undefined ? [{ Name: 'suffix', Value: t.suffix }] : []),
+                        ],
+                    },
+                } : undefined,
+            }));
+        };
+        const obj = {
+            NotificationConfiguration: {
+                '@_xmlns': S3_XMLNS,
+                TopicConfiguration: section('TopicConfiguration', 'Topic'),
+                QueueConfiguration: section('QueueConfiguration', 'Queue'),
+                CloudFunctionConfiguration: section('CloudFunctionConfiguration', 'CloudFunction'),
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
+    serverSideEncryptionConfigurationResponse(config: BucketEncryption): string {
+        const obj = {
+            ServerSideEncryptionConfiguration: {
+                '@_xmlns': S3_XMLNS,
+                Rule: {
+                    ApplyServerSideEncryptionByDefault: { SSEAlgorithm: config.algorithm },
+                    BucketKeyEnabled: false,
+                },
+            },
+        };
+        return this.xmlDeclaration() + '\n' + builder.build(obj);
+    },
+
     locationConstraintResponse(region: string): string {
         const obj = {
             CreateBucketConfiguration: {
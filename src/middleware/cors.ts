@@ -0,0 +1,77 @@
+import { Elysia } from 'elysia';
+import { db } from '../db/connection';
+import { buckets } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { env } from '../config/env';
+import { findCorsRule, corsResponseHeaders, type CorsRule } from '../lib/cors';
+import { S3Errors, s3ErrorResponse } from '../lib/errors';
+
+const ADMIN_METHODS = 'GET, POST, PUT, DELETE, PATCH, HEAD, OPTIONS';
+const ADMIN_EXPOSE_HEADERS = 'ETag, x-amz-request-id, x-amz-id-2, Content-Range, Accept-Ranges';
+
+async function getBucketCorsRules(bucketName: string): Promise<CorsRule[] | null> {
+    const [bucket] = await db.select({ cors: buckets.cors })
+        .from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+    if (!bucket?.cors) return null;
+    try {
+        return JSON.parse(bucket.cors);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * CORS for both surfaces the server exposes: the admin API trusts the CORS_ORIGIN
+ * whitelist (the dashboard), while S3 requests are evaluated against the target
+ * bucket's own CORSConfiguration.
+ */
+export const corsMiddleware = new Elysia({ name: 'cors' })
+    .onRequest(async ({ request, set }) => {
+        const origin = request.headers.get('origin');
+        const isPreflight = request.method === 'OPTIONS';
+        const url = new URL(request.url);
+        const [firstSegment] = url.pathname.split('/').filter(Boolean);
+
+        // Admin API
+        if (firstSegment === 'admin') {
+            set.headers['vary'] = 'Origin';
+            if (origin && env.corsOrigins.includes(origin)) {
+                set.headers['access-control-allow-origin'] = origin;
+                set.headers['access-control-allow-credentials'] = 'true';
+                set.headers['access-control-allow-methods'] = ADMIN_METHODS;
+                set.headers['access-control-allow-headers'] = request.headers.get('access-control-request-headers') || '*';
+                set.headers['access-control-expose-headers'] = ADMIN_EXPOSE_HEADERS;
+            }
+            if (isPreflight) {
+                set.headers['access-control-max-age'] = '5';
+                return new Response(null, { status: 204 });
+            }
+            return;
+        }
+
+        // S3 API — per-bucket CORS rules
+        if (!origin) {
+            if (isPreflight) return s3ErrorResponse(S3Errors.CORSForbidden());
+            return;
+        }
+
+        const rules = firstSegment ? await getBucketCorsRules(decodeURIComponent(firstSegment)) : null;
+
+        if (isPreflight) {
+            const method = request.headers.get('access-control-request-method') || '';
+            const requestHeaders = (request.headers.get('access-control-request-headers') || '')
+                .split(',').map((h) => h.trim()).filter(Boolean);
+            const rule = rules && findCorsRule(rules, origin, method, requestHeaders);
+            if (!rule) return s3ErrorResponse(S3Errors.CORSForbidden());
+
+            const headers = corsResponseHeaders(rule, origin);
+            if (requestHeaders.length > 0) headers['access-control-allow-headers'] = requestHeaders.join(', ');
+            if (rule.maxAgeSeconds !== undefined) headers['access-control-max-age'] = String(rule.maxAgeSeconds);
+            return new Response(null, { status: 200, headers });
+        }
+
+        const rule = rules && findCorsRule(rules, origin, request.method);
+        if (rule) Object.assign(set.headers, corsResponseHeaders(rule, origin));
+    });
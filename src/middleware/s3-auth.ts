@@ -2,11 +2,72 @@ import { Elysia } from 'elysia';
 import { db } from '../db/connection';
 import { accessKeys, buckets } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { parseAuthorizationHeader, verifySignature, verifyPresignedUrl, verifyPresignedUrlV2 } from '../lib/auth/signature-v4';
-import { S3Errors, s3ErrorResponse } from '../lib/errors';
+import {
+    parseAuthorizationHeader, verifySignature, verifyPresignedUrl, verifyPresignedUrlV2, verifyPostPolicySignature,
+    createChunkVerifier, payloadMatchesContentSha256, type ChunkVerifier,
+} from '../lib/auth/signature-v4';
+import { decodeAwsChunked, isAwsChunked } from '../lib/auth/aws-chunked';
+import { S3Errors, s3ErrorResponse, type S3Error } from '../lib/errors';
+import { evaluateBucketPolicy, parseBucketPolicy, resolveS3Action } from '../lib/policy';
+import { isPostObjectRequest, parsePostForm, type PostForm } from '../lib/post-policy';
+import { virtualHostOf } from '../lib/virtual-host';
+import { clientIp, isSecureTransport, recordSocketAddress } from '../lib/client';
+
+interface Identity {
+    s3Error: S3Error | null;
+    accessKeyId: string;
+    ownerId: number;
+    /** Set for a signed aws-chunked upload, whose chunk signatures chain from the request's */
+    chunkVerifier?: ChunkVerifier;
+}
+
+export type Authorizer = (action: string, bucketName: string, key?: string) => Promise<boolean>;
+
+/** What a public-read bucket grants anonymous callers, like a READ ACL grant on S3 */
+const PUBLIC_READ_ACTIONS = ['s3:GetObject', 's3:GetObjectVersion', 's3:ListBucket'];
+
+/**
+ * Decide whether the caller may perform `action` on a bucket (or one of its keys).
+ * The bucket owner and — when the bucket has no policy — every other active key keep
+ * full access; a policy's explicit Deny always wins, and once a policy is attached,
+ * other keys need an explicit Allow. Anonymous callers need one too, unless the bucket is
+ * public-read and the action only reads objects or lists them.
+ */
+async function isAuthorized(
+    identity: Identity,
+    action: string,
+    bucketName: string,
+    key: string | undefined,
+    context: Record<string, string | undefined>,
+): Promise<boolean> {
+    const anonymous = identity.accessKeyId === 'anonymous';
+
+    const [bucket] = await db.select({ ownerId: buckets.ownerId, acl: buckets.acl, policy: buckets.policy })
+        .from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+
+    // Unknown bucket — authenticated callers fall through to NoSuchBucket / CreateBucket
+    if (!bucket) return !anonymous;
+
+    const isOwner = !anonymous && identity.ownerId === bucket.ownerId;
+    // The owner can always manage the policy itself, so a bad Deny cannot lock them out
+    if (isOwner && action.endsWith('BucketPolicy')) return true;
+
+    const parsed = bucket.policy ? parseBucketPolicy(bucket.policy, bucketName) : null;
+    const policy = typeof parsed === 'string' ? null : parsed;
+    const decision = policy
+        ? evaluateBucketPolicy(policy, { principal: anonymous ? '*' : identity.accessKeyId, action, bucket: bucketName, key, context })
+        : 'Implicit';
+
+    if (decision === 'Deny') return false;
+    if (decision === 'Allow') return true;
+    if (anonymous) return bucket.acl === 'public-read' && PUBLIC_READ_ACTIONS.includes(action);
+    return isOwner || !policy;
+}
 
 export const s3Auth = new Elysia({ name: 's3-auth' })
-    .derive({ as: 'scoped' }, async ({ request, query }) => {
+    .derive({ as: 'scoped' }, async ({ request, server }) => {
         const url = new URL(request.url);
         const headers: Record<string, string> = {};
         request.headers.forEach((value, key) => {
@@ -38,112 +99,217 @@ export const s3Auth = new Elysia({ name: 's3-auth' })
             }
         }
 
-        // Check for V2 presigned URL (AWSAccessKeyId + Expires + Signature)
-        if (queryParams['AWSAccessKeyId']) {
-            const accessKeyId = queryParams['AWSAccessKeyId'];
-
-            const [keyRecord] = await db.select().from(accessKeys)
-                .where(eq(accessKeys.accessKeyId, accessKeyId))
-                .limit(1);
+        const [, rawBucket = '', ...rawKey] = url.pathname.split('/');
+        const key = rawKey.join('/') ? decodeURIComponent(rawKey.join('/')) : undefined;
 
-            if (!keyRecord || !keyRecord.isActive) {
-                return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0, bodyBuffer };
+        // Browser form uploads carry their credentials in the form rather than the request
+        let postForm: PostForm | null = null;
+        let identity: Identity;
+        if (rawBucket && isPostObjectRequest(request.method, key, url.searchParams, headers['content-type'])) {
+            const form = await parsePostForm(bodyBuffer, headers['content-type']!);
+            if ('code' in form) {
+                identity = { s3Error: form, accessKeyId: '', ownerId: 0 };
+            } else {
+                postForm = form;
+                identity = await authenticatePostForm(form);
             }
+        } else {
+            identity = await authenticate(request, url, headers, queryParams, bodyBuffer);
+        }
 
-            const valid = verifyPresignedUrlV2({
-                method: request.method,
-                path: url.pathname,
-                query: queryParams,
-                headers,
-                secretAccessKey: keyRecord.secretAccessKey,
-            });
-
-            if (!valid) {
-                console.warn(`[S3Auth] V2 presigned URL signature mismatch for ${accessKeyId}`);
-                return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0, bodyBuffer };
+        // aws-chunked bodies are unwrapped, every chunk signature checked, before any handler sees them
+        let trailers: Record<string, string> = {};
+        if (!identity.s3Error && isAwsChunked(headers['x-amz-content-sha256'])) {
+            const decoded = decodeAwsChunked(bodyBuffer, headers, identity.chunkVerifier ?? null);
+            if ('code' in decoded) {
+                identity = { s3Error: decoded, accessKeyId: '', ownerId: 0 };
+            } else {
+                bodyBuffer = decoded.body;
+                trailers = decoded.trailers;
             }
-
-            return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id, bodyBuffer };
         }
 
-        // Check for V4 presigned URL (X-Amz-Algorithm)
-        if (queryParams['X-Amz-Algorithm']) {
-            const credential = queryParams['X-Amz-Credential'];
-            if (!credential) {
-                return { s3Error: S3Errors.MissingSecurityHeader(), accessKeyId: '', ownerId: 0, bodyBuffer };
-            }
-            const accessKeyId = credential.split('/')[0]!;
+        // Condition keys available to bucket policies; a re-dispatched virtual-hosted request
+        // no longer has a socket, so its address was recorded before the rewrite
+        recordSocketAddress(request, virtualHostOf(request)?.clientIp ?? server?.requestIP(request)?.address);
+        const policyContext: Record<string, string | undefined> = {
+            'aws:sourceip': clientIp(request),
+            'aws:securetransport': String(isSecureTransport(request)),
+            's3:prefix': queryParams['prefix'],
+        };
 
-            const [keyRecord] = await db.select().from(accessKeys)
-                .where(eq(accessKeys.accessKeyId, accessKeyId))
-                .limit(1);
+        const authorize: Authorizer = async (action, bucketName, key) => {
+            if (identity.s3Error) return false;
+            return isAuthorized(identity, action, bucketName, key, policyContext);
+        };
 
-            if (!keyRecord || !keyRecord.isActive) {
-                return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0, bodyBuffer };
-            }
+        if (identity.s3Error) return { ...identity, bodyBuffer, trailers, postForm, authorize };
+
+        if (rawBucket) {
+            const bucketName = decodeURIComponent(rawBucket);
+            const action = resolveS3Action(request.method, key, url.searchParams);
 
-            const valid = verifyPresignedUrl({
-                method: request.method,
-                path: url.pathname,
-                query: queryParams,
-                headers,
-                secretAccessKey: keyRecord.secretAccessKey,
-            });
-
-            if (!valid) {
-                console.warn(`[S3Auth] Presigned URL signature mismatch for ${accessKeyId}`);
-                return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0, bodyBuffer };
+            // DeleteObjects is authorized per key by the handler, POST Object once the form names its key
+            const isBatchDelete = request.method === 'POST' && key === undefined && url.searchParams.has('delete');
+            if (!isBatchDelete && !postForm && !(await authorize(action, bucketName, key))) {
+                const s3Error = identity.accessKeyId === 'anonymous' ? S3Errors.MissingSecurityHeader() : S3Errors.AccessDenied();
+                return { s3Error, accessKeyId: '', ownerId: 0, bodyBuffer, trailers, postForm, authorize };
             }
+        } else if (identity.accessKeyId === 'anonymous') {
+            return { s3Error: S3Errors.MissingSecurityHeader(), accessKeyId: '', ownerId: 0, bodyBuffer, trailers, postForm, authorize };
+        }
+
+        return { ...identity, bodyBuffer, trailers, postForm, authorize };
+    });
 
-            return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id, bodyBuffer };
+async function authenticate(
+    request: Request,
+    url: URL,
+    headers: Record<string, string>,
+    queryParams: Record<string, string>,
+    bodyBuffer: Buffer,
+): Promise<Identity> {
+    // Virtual-hosted requests are signed over the path the client sent (V4), or over
+    // /<bucket><path> (V2); the routes only ever see the path-style form
+    const virtualHost = virtualHostOf(request);
+    const signedPath = virtualHost?.path ?? url.pathname;
+
+    // Check for V2 presigned URL (AWSAccessKeyId + Expires + Signature)
+    if (queryParams['AWSAccessKeyId']) {
+        const accessKeyId = queryParams['AWSAccessKeyId'];
+
+        const [keyRecord] = await db.select().from(accessKeys)
+            .where(eq(accessKeys.accessKeyId, accessKeyId))
+            .limit(1);
+
+        if (!keyRecord || !keyRecord.isActive) {
+            return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0 };
         }
 
-        // Check Authorization header
-        const authHeader = headers['authorization'];
-        if (!authHeader) {
-            // No auth — check if this is a read request on a public-read bucket
-            if (request.method === 'GET' || request.method === 'HEAD') {
-                const pathParts = url.pathname.split('/').filter(Boolean);
-                if (pathParts.length >= 1) {
-                    const bucketName = pathParts[0];
-                    const [bucket] = await db.select({ acl: buckets.acl })
-                        .from(buckets)
-                        .where(eq(buckets.name, bucketName!))
-                        .limit(1);
-
-                    if (bucket?.acl === 'public-read') {
-                        return { s3Error: null, accessKeyId: 'anonymous', ownerId: 0, bodyBuffer };
-                    }
-                }
-            }
-            return { s3Error: S3Errors.MissingSecurityHeader(), accessKeyId: '', ownerId: 0, bodyBuffer };
+        const valid = verifyPresignedUrlV2({
+            method: request.method,
+            path: virtualHost ? `/${virtualHost.bucket}${virtualHost.path}` : url.pathname,
+            query: queryParams,
+            headers,
+            secretAccessKey: keyRecord.secretAccessKey,
+        });
+
+        if (!valid) {
+            console.warn(`[S3Auth] V2 presigned URL signature mismatch for ${accessKeyId}`);
+            return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0 };
         }
 
-        const parsed = parseAuthorizationHeader(authHeader);
-        if (!parsed) {
-            return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0, bodyBuffer };
+        return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id };
+    }
+
+    // Check for V4 presigned URL (X-Amz-Algorithm)
+    if (queryParams['X-Amz-Algorithm']) {
+        const credential = queryParams['X-Amz-Credential'];
+        if (!credential) {
+            return { s3Error: S3Errors.MissingSecurityHeader(), accessKeyId: '', ownerId: 0 };
         }
+        const accessKeyId = credential.split('/')[0]!;
 
         const [keyRecord] = await db.select().from(accessKeys)
-            .where(eq(accessKeys.accessKeyId, parsed.accessKeyId))
+            .where(eq(accessKeys.accessKeyId, accessKeyId))
             .limit(1);
 
         if (!keyRecord || !keyRecord.isActive) {
-            return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0, bodyBuffer };
+            return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0 };
         }
 
-        const valid = verifySignature({
+        const valid = verifyPresignedUrl({
             method: request.method,
-            path: url.pathname,
+            path: signedPath,
             query: queryParams,
             headers,
-            body: bodyBuffer,
             secretAccessKey: keyRecord.secretAccessKey,
         });
 
         if (!valid) {
-            return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0, bodyBuffer };
+            console.warn(`[S3Auth] Presigned URL signature mismatch for ${accessKeyId}`);
+            return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0 };
         }
 
-        return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id, bodyBuffer };
+        return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id };
+    }
+
+    // Check Authorization header
+    const authHeader = headers['authorization'];
+    if (!authHeader) {
+        // No auth — anonymous; public-read ACLs and bucket policies decide what it may do
+        return { s3Error: null, accessKeyId: 'anonymous', ownerId: 0 };
+    }
+
+    const parsed = parseAuthorizationHeader(authHeader);
+    if (!parsed) {
+        return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0 };
+    }
+
+    const [keyRecord] = await db.select().from(accessKeys)
+        .where(eq(accessKeys.accessKeyId, parsed.accessKeyId))
+        .limit(1);
+
+    if (!keyRecord || !keyRecord.isActive) {
+        return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0 };
+    }
+
+    const valid = verifySignature({
+        method: request.method,
+        path: signedPath,
+        query: queryParams,
+        headers,
+        body: bodyBuffer,
+        secretAccessKey: keyRecord.secretAccessKey,
+    });
+
+    if (!valid) {
+        return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0 };
+    }
+    if (!payloadMatchesContentSha256(headers['x-amz-content-sha256'], bodyBuffer)) {
+        return { s3Error: S3Errors.XAmzContentSHA256Mismatch(), accessKeyId: '', ownerId: 0 };
+    }
+
+    const chunkVerifier = isAwsChunked(headers['x-amz-content-sha256'])
+        ? createChunkVerifier(authHeader, headers['x-amz-date'] || '', keyRecord.secretAccessKey) ?? undefined
+        : undefined;
+    return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id, chunkVerifier };
+}
+
+
+/**
+ * POST Object credentials: `x-amz-credential` names the key, and `x-amz-signature` signs the
+ * policy document. A form without a signature is anonymous, like an unsigned request.
+ */
+async function authenticatePostForm(form: PostForm): Promise<Identity> {
+    const { fields } = form;
+    if (!fields['x-amz-signature']) {
+        return { s3Error: null, accessKeyId: 'anonymous', ownerId: 0 };
+    }
+    if (fields['x-amz-algorithm'] !== 'AWS4-HMAC-SHA256' || !fields['x-amz-credential'] || !fields['policy']) {
+        return { s3Error: S3Errors.InvalidRequest('POST requires the policy, x-amz-algorithm (AWS4-HMAC-SHA256), x-amz-credential and x-amz-signature fields.'), accessKeyId: '', ownerId: 0 };
+    }
+
+    const accessKeyId = fields['x-amz-credential'].split('/')[0]!;
+    const [keyRecord] = await db.select().from(accessKeys)
+        .where(eq(accessKeys.accessKeyId, accessKeyId))
+        .limit(1);
+
+    if (!keyRecord || !keyRecord.isActive) {
+        return { s3Error: S3Errors.AccessDenied(), accessKeyId: '', ownerId: 0 };
+    }
+
+    const valid = verifyPostPolicySignature({
+        policy: fields['policy'],
+        credential: fields['x-amz-credential'],
+        signature: fields['x-amz-signature'],
+        secretAccessKey: keyRecord.secretAccessKey,
     });
+
+    if (!valid) {
+        console.warn(`[S3Auth] POST policy signature mismatch for ${accessKeyId}`);
+        return { s3Error: S3Errors.SignatureDoesNotMatch(), accessKeyId: '', ownerId: 0 };
+    }
+
+    return { s3Error: null, accessKeyId: keyRecord.accessKeyId, ownerId: keyRecord.id };
+}
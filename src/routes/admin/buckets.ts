@@ -1,10 +1,14 @@
 import { Elysia, t } from 'elysia';
 import { db } from '../../db/connection';
 import { buckets, objects, accessKeys } from '../../db/schema';
-import { eq, and, like, count, sum, desc } from 'drizzle-orm';
+import { eq, and, or, gt, like, count, sum, desc, sql } from 'drizzle-orm';
 import { adminAuth } from '../../middleware/admin-auth';
 import { storage } from '../../lib/storage/filesystem';
-import { generatePresignedUrl } from '../../lib/auth/signature-v4';
+import { generatePresignedUrl, signPostPolicy } from '../../lib/auth/signature-v4';
+import { buildPostPolicy } from '../../lib/post-policy';
+import { parseStoredTags } from '../../lib/tagging';
+import { checkVersionDeletable } from '../../lib/object-lock';
+import { withKeyWriteLock } from '../../lib/versioning';
 
 export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
     .use(adminAuth)
@@ -68,6 +72,20 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
             });
         }
 
+        // Versions under a legal hold or unexpired retention keep the whole bucket alive
+        const [locked] = await db.select({ id: objects.id }).from(objects)
+            .where(and(
+                eq(objects.bucketId, bucket.id),
+                or(eq(objects.legalHold, true), gt(objects.retainUntilDate, new Date())),
+            ))
+            .limit(1);
+        if (locked) {
+            return new Response(JSON.stringify({ error: 'Bucket contains objects protected by Object Lock' }), {
+                status: 409,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
         // Delete all objects in this bucket (DB + filesystem)
         await db.delete(objects).where(eq(objects.bucketId, bucket.id));
         await storage.deleteBucket(bucketName);
@@ -75,13 +93,20 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
 
         return { deleted: true, name: bucketName };
     })
-    .get('/', async () => {
+    .get('/', async ({ query }) => {
+        // Optional tag filter: ?tagKey=cost-center (any value) or ?tagKey=cost-center&tagValue=eng
+        const tagKey = (query as any)?.tagKey as string | undefined;
+        const tagValue = (query as any)?.tagValue as string | undefined;
+
         const allBuckets = await db.select().from(buckets);
 
         const result = [];
         for (const b of allBuckets) {
+            const tags = parseStoredTags(b.tags);
+            if (tagKey && !tags.some((t) => t.key === tagKey && (tagValue === undefined || t.value === tagValue))) continue;
+
             const [objStats] = await db.select({
-                count: count(),
+                count: sql<number>`count(case when ${objects.isLatest} and not ${objects.isDeleteMarker} then 1 end)`.mapWith(Number),
                 totalSize: sum(objects.size),
             }).from(objects).where(eq(objects.bucketId, b.id));
 
@@ -91,6 +116,9 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
                 region: b.region,
                 acl: b.acl,
                 maxSize: b.maxSize,
+                versioning: b.versioning,
+                objectLockEnabled: !!b.objectLock,
+                tags,
                 createdAt: b.createdAt,
                 objectCount: objStats?.count || 0,
                 totalSize: Number(objStats?.totalSize || 0),
@@ -108,7 +136,7 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
             });
         }
         const [objStats] = await db.select({
-            count: count(),
+            count: sql<number>`count(case when ${objects.isLatest} and not ${objects.isDeleteMarker} then 1 end)`.mapWith(Number),
             totalSize: sum(objects.size),
         }).from(objects).where(eq(objects.bucketId, bucket.id));
 
@@ -119,6 +147,9 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
                 region: bucket.region,
                 acl: bucket.acl,
                 maxSize: bucket.maxSize,
+                versioning: bucket.versioning,
+                objectLockEnabled: !!bucket.objectLock,
+                tags: parseStoredTags(bucket.tags),
                 createdAt: bucket.createdAt,
                 objectCount: objStats?.count || 0,
                 totalSize: Number(objStats?.totalSize || 0),
@@ -169,9 +200,10 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
             });
         }
 
+        const currentOnly = and(eq(objects.bucketId, bucket.id), eq(objects.isLatest, true), eq(objects.isDeleteMarker, false));
         const whereClause = prefix
-            ? and(eq(objects.bucketId, bucket.id), like(objects.key, `${prefix}%`))
-            : eq(objects.bucketId, bucket.id);
+            ? and(currentOnly, like(objects.key, `${prefix}%`))
+            : currentOnly;
 
         const [total] = await db.select({ count: count() }).from(objects).where(whereClause);
 
@@ -200,7 +232,7 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
             },
         };
     })
-    .delete('/:bucket/objects/*', async ({ params }) => {
+    .delete('/:bucket/objects/*', async ({ params, query }) => {
         const bucketName = params.bucket;
         const key = (params as any)['*'];
 
@@ -215,19 +247,39 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
             });
         }
 
-        const [obj] = await db.select().from(objects)
-            .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)))
-            .limit(1);
-
-        if (!obj) {
-            return new Response(JSON.stringify({ error: 'Object not found' }), {
-                status: 404,
-                headers: { 'Content-Type': 'application/json' },
-            });
-        }
-
-        await storage.deleteObject(bucketName, key);
-        await db.delete(objects).where(eq(objects.id, obj.id));
+        // Admin deletes are permanent: every version of the key is removed, under the key's write lock
+        const refused = (await withKeyWriteLock(bucket.id, key, async () => {
+            const versions = await db.select().from(objects)
+                .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)));
+
+            if (versions.length === 0) {
+                return new Response(JSON.stringify({ error: 'Object not found' }), {
+                    status: 404,
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            // ?bypassGovernanceRetention=true lifts GOVERNANCE retention; legal holds and COMPLIANCE still apply
+            const bypassGovernance = (query as any)?.bypassGovernanceRetention === 'true';
+            if (versions.some((v) => checkVersionDeletable(v, bypassGovernance))) {
+                return new Response(JSON.stringify({ error: 'Object is protected by Object Lock' }), {
+                    status: 403,
+                    headers: { 'Content-Type': 'application/json' },
+                });
+            }
+
+            for (const version of versions) {
+                if (version.isDeleteMarker) continue;
+                if (version.isLatest) {
+                    await storage.deleteObject(bucketName, key);
+                } else {
+                    await storage.deleteObjectVersion(bucketName, key, version.versionId);
+                }
+            }
+            await db.delete(objects).where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)));
+            return null;
+        }))!;
+        if (refused) return refused;
 
         return { deleted: true, key };
     })
@@ -279,4 +331,83 @@ export const adminBucketsRoutes = new Elysia({ prefix: '/admin/buckets' })
         });
 
         return { url, expiresIn };
+    })
+    // Signed form fields for a browser POST Object upload of one key (`${filename}` allowed)
+    .post('/:bucket/post-policy', async ({ params, body }) => {
+        const { key, expiresIn = 3600, contentType, maxSize, successActionStatus, successActionRedirect } = body as {
+            key: string;
+            expiresIn?: number;
+            contentType?: string;
+            maxSize?: number;
+            successActionStatus?: string;
+            successActionRedirect?: string;
+        };
+
+        if (!key) {
+            return new Response(JSON.stringify({ error: 'key is required' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > 604800) {
+            return new Response(JSON.stringify({ error: 'expiresIn must be between 1 second and 7 days' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const [bucket] = await db.select().from(buckets)
+            .where(eq(buckets.name, params.bucket))
+            .limit(1);
+
+        if (!bucket) {
+            return new Response(JSON.stringify({ error: 'Bucket not found' }), {
+                status: 404,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        // Signed as the bucket owner, whose key needs no policy grant
+        const [ownerKey] = await db.select().from(accessKeys)
+            .where(and(eq(accessKeys.id, bucket.ownerId), eq(accessKeys.isActive, true)))
+            .limit(1);
+
+        if (!ownerKey) {
+            return new Response(JSON.stringify({ error: 'The bucket owner has no active access key for signing' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        const datetime = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        const fields: Record<string, string> = {
+            'x-amz-algorithm': 'AWS4-HMAC-SHA256',
+            'x-amz-credential': `${ownerKey.accessKeyId}/${datetime.slice(0, 8)}/${bucket.region}/s3/aws4_request`,
+            'x-amz-date': datetime,
+        };
+        if (contentType) fields['Content-Type'] = contentType;
+        if (successActionStatus) fields['success_action_status'] = successActionStatus;
+        if (successActionRedirect) fields['success_action_redirect'] = successActionRedirect;
+
+        const policy = buildPostPolicy({
+            bucket: bucket.name,
+            key,
+            expiresIn,
+            fields,
+            contentLengthRange: maxSize ? { min: 0, max: maxSize } : undefined,
+        });
+
+        const host = process.env.S3_PUBLIC_HOST || `localhost:${process.env.PORT || '3000'}`;
+        const protocol = host.includes('localhost') ? 'http' : 'https';
+
+        return {
+            url: `${protocol}://${host}/${bucket.name}`,
+            fields: {
+                key,
+                ...fields,
+                policy,
+                'x-amz-signature': signPostPolicy(policy, fields['x-amz-credential']!, ownerKey.secretAccessKey),
+            },
+            expiresIn,
+        };
     });
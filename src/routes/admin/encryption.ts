@@ -0,0 +1,35 @@
+import { Elysia } from 'elysia';
+import { env } from '../../config/env';
+import { adminAuth } from '../../middleware/admin-auth';
+import { isSseS3Available } from '../../lib/encryption';
+import { countObjectsByMasterKey, rewrapDataKeys } from '../../lib/key-rotation';
+
+export const adminEncryptionRoutes = new Elysia({ prefix: '/admin/encryption' })
+    .use(adminAuth)
+    .onBeforeHandle(({ isAdmin }) => {
+        if (!isAdmin) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+    })
+    // Current master key and how many object versions each master key still protects
+    .get('/', async () => {
+        return {
+            enabled: isSseS3Available(),
+            currentMasterKeyId: isSseS3Available() ? env.sse.masterKeyId : null,
+            encryptAll: env.sse.encryptAll,
+            objectsByMasterKey: await countObjectsByMasterKey(),
+        };
+    })
+    // Re-wrap data keys held by retired master keys now instead of waiting for the worker
+    .post('/rewrap', async () => {
+        if (!isSseS3Available()) {
+            return new Response(JSON.stringify({ error: 'SSE_MASTER_KEY is not configured' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        return rewrapDataKeys();
+    });
@@ -0,0 +1,64 @@
+import { Elysia } from 'elysia';
+import { db } from '../../db/connection';
+import { buckets, multipartUploads, multipartParts } from '../../db/schema';
+import { eq, count, sum, desc } from 'drizzle-orm';
+import { adminAuth } from '../../middleware/admin-auth';
+import { sweepMultipartUploads } from '../../lib/multipart-gc';
+
+function parseMaxAge(value: unknown): number | undefined | null {
+    if (value === undefined || value === null || value === '') return undefined;
+    const hours = Number(value);
+    return Number.isFinite(hours) && hours >= 0 ? hours : null;
+}
+
+export const adminMultipartRoutes = new Elysia({ prefix: '/admin/multipart' })
+    .use(adminAuth)
+    .onBeforeHandle(({ isAdmin }) => {
+        if (!isAdmin) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+    })
+    // List in-progress uploads with their part count and size
+    .get('/', async () => {
+        const uploads = await db.select({
+            uploadId: multipartUploads.uploadId,
+            bucket: buckets.name,
+            key: multipartUploads.key,
+            initiatedAt: multipartUploads.initiatedAt,
+            partCount: count(multipartParts.id),
+            totalSize: sum(multipartParts.size),
+        }).from(multipartUploads)
+            .innerJoin(buckets, eq(multipartUploads.bucketId, buckets.id))
+            .leftJoin(multipartParts, eq(multipartParts.uploadId, multipartUploads.uploadId))
+            .groupBy(multipartUploads.uploadId, buckets.name, multipartUploads.key, multipartUploads.initiatedAt)
+            .orderBy(desc(multipartUploads.initiatedAt));
+
+        return {
+            uploads: uploads.map((u) => ({ ...u, totalSize: Number(u.totalSize || 0) })),
+        };
+    })
+    // Preview a sweep without deleting anything
+    .get('/sweep', async ({ query }) => {
+        const maxAgeHours = parseMaxAge((query as any)?.maxAgeHours);
+        if (maxAgeHours === null) {
+            return new Response(JSON.stringify({ error: 'maxAgeHours must be a non-negative number' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        return sweepMultipartUploads({ dryRun: true, maxAgeHours });
+    })
+    // Abort every upload older than the max age now
+    .post('/sweep', async ({ body }) => {
+        const maxAgeHours = parseMaxAge((body as any)?.maxAgeHours);
+        if (maxAgeHours === null) {
+            return new Response(JSON.stringify({ error: 'maxAgeHours must be a non-negative number' }), {
+                status: 400,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+        return sweepMultipartUploads({ maxAgeHours });
+    });
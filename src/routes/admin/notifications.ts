@@ -0,0 +1,54 @@
+import { Elysia } from 'elysia';
+import { db } from '../../db/connection';
+import { notificationQueue, notificationDeadLetters } from '../../db/schema';
+import { eq, count, desc } from 'drizzle-orm';
+import { adminAuth } from '../../middleware/admin-auth';
+import { retryDeadLetter } from '../../lib/notifications';
+
+function notFound(): Response {
+    return new Response(JSON.stringify({ error: 'Dead letter not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
+
+export const adminNotificationsRoutes = new Elysia({ prefix: '/admin/notifications' })
+    .use(adminAuth)
+    .onBeforeHandle(({ isAdmin }) => {
+        if (!isAdmin) {
+            return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+                status: 401,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+    })
+    // Pending deliveries and events that exhausted their retries
+    .get('/', async ({ query }) => {
+        const bucket = (query as any)?.bucket as string | undefined;
+
+        const [pending] = await db.select({ count: count() }).from(notificationQueue);
+        const deadLetters = await db.select().from(notificationDeadLetters)
+            .where(bucket ? eq(notificationDeadLetters.bucketName, bucket) : undefined)
+            .orderBy(desc(notificationDeadLetters.failedAt))
+            .limit(500);
+
+        return {
+            pending: pending?.count ?? 0,
+            deadLetters: deadLetters.map((d) => ({ ...d, payload: JSON.parse(d.payload) })),
+        };
+    })
+    // Re-queue a dead-lettered event for delivery
+    .post('/:id/retry', async ({ params }) => {
+        const retried = await retryDeadLetter(parseInt(params.id));
+        if (!retried) return notFound();
+        return { success: true };
+    })
+    .delete('/:id', async ({ params }) => {
+        const [letter] = await db.select({ id: notificationDeadLetters.id }).from(notificationDeadLetters)
+            .where(eq(notificationDeadLetters.id, parseInt(params.id)))
+            .limit(1);
+        if (!letter) return notFound();
+
+        await db.delete(notificationDeadLetters).where(eq(notificationDeadLetters.id, letter.id));
+        return { success: true };
+    });
@@ -1,7 +1,7 @@
 import { Elysia } from 'elysia';
 import { db } from '../../db/connection';
 import { accessKeys, buckets, objects } from '../../db/schema';
-import { count, sum, sql, eq, desc } from 'drizzle-orm';
+import { count, sum, sql, eq, and, desc } from 'drizzle-orm';
 import { adminAuth } from '../../middleware/admin-auth';
 import { storage } from '../../lib/storage/filesystem';
 
@@ -17,7 +17,8 @@ export const adminStatsRoutes = new Elysia({ prefix: '/admin/stats' })
     })
     .get('/', async () => {
         const [bucketCount] = await db.select({ count: count() }).from(buckets);
-        const [objectCount] = await db.select({ count: count() }).from(objects);
+        const [objectCount] = await db.select({ count: count() }).from(objects)
+            .where(and(eq(objects.isLatest, true), eq(objects.isDeleteMarker, false)));
         const [storageUsed] = await db.select({ total: sum(objects.size) }).from(objects);
         const [keyCount] = await db.select({ count: count() }).from(accessKeys);
 
@@ -28,6 +29,7 @@ export const adminStatsRoutes = new Elysia({ prefix: '/admin/stats' })
             createdAt: objects.createdAt,
             bucketId: objects.bucketId,
         }).from(objects)
+            .where(eq(objects.isDeleteMarker, false))
             .orderBy(desc(objects.createdAt))
             .limit(10);
 
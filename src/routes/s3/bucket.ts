@@ -1,11 +1,21 @@
 import { Elysia } from 'elysia';
+import type { Server } from 'elysia/universal';
 import { db } from '../../db/connection';
-import { buckets, objects } from '../../db/schema';
-import { eq, and, like, count, sql } from 'drizzle-orm';
+import { buckets, objects, multipartUploads } from '../../db/schema';
+import { eq, and, or, like, count, sql, desc } from 'drizzle-orm';
 import { s3Auth } from '../../middleware/s3-auth';
 import { storage } from '../../lib/storage/filesystem';
 import { xml } from '../../lib/xml/builder';
 import { S3Errors, s3ErrorResponse } from '../../lib/errors';
+import { parseLifecycleConfiguration } from '../../lib/lifecycle';
+import { parseCorsConfiguration } from '../../lib/cors';
+import { parseBucketPolicy } from '../../lib/policy';
+import { parseTaggingXml, parseStoredTags, validateTags, MAX_BUCKET_TAGS } from '../../lib/tagging';
+import { parseObjectLockConfiguration, getBucketObjectLock } from '../../lib/object-lock';
+import { parseWebsiteConfiguration } from '../../lib/website';
+import { checkWebhookTarget, parseNotificationConfiguration, SUPPORTED_EVENTS } from '../../lib/notifications';
+import { parseBucketEncryption, getBucketEncryption, isSseS3Available } from '../../lib/encryption';
+import { latestEventCursor, readBucketEvents, listenForBucketEvent, type EventFilter } from '../../lib/event-feed';
 import { env } from '../../config/env';
 
 export const bucketRoutes = new Elysia({ prefix: '' })
@@ -45,12 +55,162 @@ export const bucketRoutes = new Elysia({ prefix: '' })
             },
         });
     })
-    // PUT /:bucket — CreateBucket or PutBucketAcl
-    .put('/:bucket', async ({ params, request, s3Error, ownerId }) => {
+    // PUT /:bucket — CreateBucket or bucket sub-resources (?acl, ?versioning, ?lifecycle, ?cors, ?policy, ?tagging, ?object-lock, ?website, ?notification, ?encryption)
+    .put('/:bucket', async ({ params, request, s3Error, ownerId, bodyBuffer }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
         const bucketName = params.bucket;
         const url = new URL(request.url);
 
+        // PutBucketVersioning — PUT /:bucket?versioning
+        if (url.searchParams.has('versioning')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const parsed = xml.parse(bodyBuffer.toString('utf-8'));
+            const status = parsed?.VersioningConfiguration?.Status;
+            if (status !== 'Enabled' && status !== 'Suspended') {
+                return s3ErrorResponse(S3Errors.MalformedXML());
+            }
+            // Locked versions must never be replaced in place, so Object Lock pins versioning on
+            if (bucket.objectLock && status !== 'Enabled') {
+                return s3ErrorResponse(S3Errors.InvalidBucketState('An Object Lock configuration is present on this bucket, so the versioning state cannot be changed.'));
+            }
+
+            await db.update(buckets).set({ versioning: status }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
+        // PutBucketLifecycleConfiguration — PUT /:bucket?lifecycle
+        if (url.searchParams.has('lifecycle')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const rules = parseLifecycleConfiguration(bodyBuffer.toString('utf-8'));
+            if (!rules) return s3ErrorResponse(S3Errors.MalformedXML());
+
+            await db.update(buckets).set({ lifecycle: JSON.stringify(rules) }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
+        // PutBucketCors — PUT /:bucket?cors
+        if (url.searchParams.has('cors')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const rules = parseCorsConfiguration(bodyBuffer.toString('utf-8'));
+            if (!rules) return s3ErrorResponse(S3Errors.MalformedXML());
+
+            await db.update(buckets).set({ cors: JSON.stringify(rules) }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
+        // PutBucketPolicy — PUT /:bucket?policy
+        if (url.searchParams.has('policy')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const document = bodyBuffer.toString('utf-8');
+            const policy = parseBucketPolicy(document, bucketName);
+            if (typeof policy === 'string') return s3ErrorResponse(S3Errors.MalformedPolicy(policy));
+
+            await db.update(buckets).set({ policy: document }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // PutBucketTagging — PUT /:bucket?tagging
+        if (url.searchParams.has('tagging')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const tags = parseTaggingXml(bodyBuffer.toString('utf-8'));
+            if (!tags) return s3ErrorResponse(S3Errors.MalformedXML());
+            const tagError = validateTags(tags, MAX_BUCKET_TAGS);
+            if (tagError) return s3ErrorResponse(S3Errors.InvalidTag(tagError));
+
+            await db.update(buckets).set({ tags: tags.length > 0 ? JSON.stringify(tags) : null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // PutObjectLockConfiguration — PUT /:bucket?object-lock
+        if (url.searchParams.has('object-lock')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            if (bucket.versioning !== 'Enabled') {
+                return s3ErrorResponse(S3Errors.InvalidBucketState('Versioning must be \'Enabled\' on the bucket to apply a Object Lock configuration'));
+            }
+
+            const config = parseObjectLockConfiguration(bodyBuffer.toString('utf-8'));
+            if (!config) return s3ErrorResponse(S3Errors.MalformedXML());
+
+            await db.update(buckets).set({ objectLock: JSON.stringify(config) }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
+        // PutBucketWebsite — PUT /:bucket?website
+        if (url.searchParams.has('website')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const config = parseWebsiteConfiguration(bodyBuffer.toString('utf-8'));
+            if (!config) return s3ErrorResponse(S3Errors.MalformedXML());
+
+            await db.update(buckets).set({ website: JSON.stringify(config) }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
+        // PutBucketNotificationConfiguration — PUT /:bucket?notification
+        if (url.searchParams.has('notification')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const targets = parseNotificationConfiguration(bodyBuffer.toString('utf-8'));
+            if (!targets) return s3ErrorResponse(S3Errors.MalformedXML());
+            for (const target of targets) {
+                const refused = await checkWebhookTarget(target.url);
+                if (refused) {
+                    return s3ErrorResponse(S3Errors.InvalidArgument(`Unable to validate the following destination configurations: ${target.id} (${refused})`));
+                }
+            }
+
+            // An empty configuration turns notifications off
+            await db.update(buckets)
+                .set({ notification: targets.length > 0 ? JSON.stringify(targets) : null })
+                .where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
+        // PutBucketEncryption — PUT /:bucket?encryption
+        if (url.searchParams.has('encryption')) {
+            const [bucket] = await db.select().from(buckets)
+                .where(eq(buckets.name, bucketName))
+                .limit(1);
+            if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+            const config = parseBucketEncryption(bodyBuffer.toString('utf-8'));
+            if (!config) return s3ErrorResponse(S3Errors.MalformedXML());
+            if (!isSseS3Available()) return s3ErrorResponse(S3Errors.InvalidRequest('Server-side encryption is not configured on this server.'));
+
+            await db.update(buckets).set({ encryption: JSON.stringify(config) }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 200 });
+        }
+
         // PutBucketAcl — PUT /:bucket?acl
         if (url.searchParams.has('acl')) {
             const [bucket] = await db.select().from(buckets)
@@ -80,11 +240,14 @@ export const bucketRoutes = new Elysia({ prefix: '' })
         if (existing) return s3ErrorResponse(S3Errors.BucketAlreadyExists(bucketName));
 
         const acl = request.headers.get('x-amz-acl') || 'private';
+        // Object Lock requires versioning, so enabling it at creation also enables versioning
+        const objectLockEnabled = request.headers.get('x-amz-bucket-object-lock-enabled')?.toLowerCase() === 'true';
         await db.insert(buckets).values({
             name: bucketName,
             ownerId,
             region: env.s3Region,
             acl: ['private', 'public-read'].includes(acl) ? acl : 'private',
+            ...(objectLockEnabled ? { versioning: 'Enabled', objectLock: JSON.stringify({ enabled: true }) } : {}),
         });
         await storage.createBucket(bucketName);
 
@@ -93,10 +256,11 @@ export const bucketRoutes = new Elysia({ prefix: '' })
             headers: { Location: `/${bucketName}` },
         });
     })
-    // DeleteBucket
-    .delete('/:bucket', async ({ params, s3Error, ownerId }) => {
+    // DeleteBucket or a bucket sub-resource (?lifecycle, ?cors, ?policy, ?tagging, ?website, ?encryption)
+    .delete('/:bucket', async ({ params, request, s3Error, ownerId }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
         const bucketName = params.bucket;
+        const url = new URL(request.url);
 
         const [bucket] = await db.select().from(buckets)
             .where(eq(buckets.name, bucketName))
@@ -104,6 +268,42 @@ export const bucketRoutes = new Elysia({ prefix: '' })
 
         if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
 
+        // DeleteBucketLifecycle — DELETE /:bucket?lifecycle
+        if (url.searchParams.has('lifecycle')) {
+            await db.update(buckets).set({ lifecycle: null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // DeleteBucketCors — DELETE /:bucket?cors
+        if (url.searchParams.has('cors')) {
+            await db.update(buckets).set({ cors: null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // DeleteBucketPolicy — DELETE /:bucket?policy
+        if (url.searchParams.has('policy')) {
+            await db.update(buckets).set({ policy: null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // DeleteBucketWebsite — DELETE /:bucket?website
+        if (url.searchParams.has('website')) {
+            await db.update(buckets).set({ website: null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // DeleteBucketEncryption — DELETE /:bucket?encryption
+        if (url.searchParams.has('encryption')) {
+            await db.update(buckets).set({ encryption: null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
+        // DeleteBucketTagging — DELETE /:bucket?tagging
+        if (url.searchParams.has('tagging')) {
+            await db.update(buckets).set({ tags: null }).where(eq(buckets.id, bucket.id));
+            return new Response(null, { status: 204 });
+        }
+
         // Check if empty
         const [objCount] = await db.select({ count: count() }).from(objects)
             .where(eq(objects.bucketId, bucket.id));
@@ -118,7 +318,7 @@ export const bucketRoutes = new Elysia({ prefix: '' })
         return new Response(null, { status: 204 });
     })
     // GET /:bucket — handles ListObjectsV2 + bucket sub-resources (?location, ?versioning, etc.)
-    .get('/:bucket', async ({ params, query, request, s3Error, ownerId }) => {
+    .get('/:bucket', async ({ params, query, request, server, s3Error, ownerId, accessKeyId }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
         const bucketName = params.bucket;
 
@@ -141,7 +341,93 @@ export const bucketRoutes = new Elysia({ prefix: '' })
 
         // GetBucketVersioning — GET /:bucket?versioning
         if (url.searchParams.has('versioning')) {
-            const body = `<?xml version="1.0" encoding="UTF-8"?><VersioningConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/"/>`;
+            const body = xml.versioningConfigurationResponse(bucket.versioning);
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // GetBucketLifecycleConfiguration — GET /:bucket?lifecycle
+        if (url.searchParams.has('lifecycle')) {
+            if (!bucket.lifecycle) return s3ErrorResponse(S3Errors.NoSuchLifecycleConfiguration(bucketName));
+            const body = xml.lifecycleConfigurationResponse(JSON.parse(bucket.lifecycle));
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // GetBucketCors — GET /:bucket?cors
+        if (url.searchParams.has('cors')) {
+            if (!bucket.cors) return s3ErrorResponse(S3Errors.NoSuchCORSConfiguration(bucketName));
+            const body = xml.corsConfigurationResponse(JSON.parse(bucket.cors));
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // GetBucketPolicy — GET /:bucket?policy
+        if (url.searchParams.has('policy')) {
+            if (!bucket.policy) return s3ErrorResponse(S3Errors.NoSuchBucketPolicy(bucketName));
+            return new Response(bucket.policy, {
+                status: 200,
+                headers: { 'Content-Type': 'application/json' },
+            });
+        }
+
+        // GetBucketTagging — GET /:bucket?tagging
+        if (url.searchParams.has('tagging')) {
+            const tags = parseStoredTags(bucket.tags);
+            if (tags.length === 0) return s3ErrorResponse(S3Errors.NoSuchTagSet());
+            const body = xml.taggingResponse(tags);
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // GetBucketWebsite — GET /:bucket?website
+        if (url.searchParams.has('website')) {
+            if (!bucket.website) return s3ErrorResponse(S3Errors.NoSuchWebsiteConfiguration(bucketName));
+            const body = xml.websiteConfigurationResponse(JSON.parse(bucket.website));
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // GetBucketNotificationConfiguration — GET /:bucket?notification
+        if (url.searchParams.has('notification')) {
+            const body = xml.notificationConfigurationResponse(bucket.notification ? JSON.parse(bucket.notification) : []);
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // ListenBucketNotification — GET /:bucket?events (long-poll JSON, or SSE with Accept: text/event-stream)
+        if (url.searchParams.has('events')) {
+            return handleBucketEvents(request, bucketName, accessKeyId, server);
+        }
+
+        // GetBucketEncryption — GET /:bucket?encryption
+        if (url.searchParams.has('encryption')) {
+            const config = getBucketEncryption(bucket);
+            if (!config) return s3ErrorResponse(S3Errors.ServerSideEncryptionConfigurationNotFound(bucketName));
+            const body = xml.serverSideEncryptionConfigurationResponse(config);
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // GetObjectLockConfiguration — GET /:bucket?object-lock
+        if (url.searchParams.has('object-lock')) {
+            const config = getBucketObjectLock(bucket);
+            if (!config) return s3ErrorResponse(S3Errors.ObjectLockConfigurationNotFound());
+            const body = xml.objectLockConfigurationResponse(config);
             return new Response(body, {
                 status: 200,
                 headers: { 'Content-Type': 'application/xml' },
@@ -160,6 +446,137 @@ export const bucketRoutes = new Elysia({ prefix: '' })
             });
         }
 
+        // ListObjectVersions — GET /:bucket?versions
+        if (url.searchParams.has('versions')) {
+            const prefix = url.searchParams.get('prefix') || '';
+            const delimiter = url.searchParams.get('delimiter') || '';
+            const maxKeys = Math.min(parseInt(url.searchParams.get('max-keys') || '1000'), 1000);
+            const keyMarker = url.searchParams.get('key-marker') || '';
+            const versionIdMarker = url.searchParams.get('version-id-marker') || '';
+            if (!(maxKeys >= 0)) return s3ErrorResponse(S3Errors.InvalidArgument('max-keys must be a non-negative integer'));
+            if (versionIdMarker && !keyMarker) {
+                return s3ErrorResponse(S3Errors.InvalidArgument('A version-id marker cannot be specified without a key marker.'));
+            }
+
+            const conditions = [eq(objects.bucketId, bucket.id)];
+            if (prefix) conditions.push(like(objects.key, `${prefix}%`));
+
+            // Resume after key-marker, or after a specific version of it when version-id-marker is set
+            if (keyMarker) {
+                const [markerVersion] = versionIdMarker
+                    ? await db.select({ id: objects.id }).from(objects)
+                        .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, keyMarker), eq(objects.versionId, versionIdMarker)))
+                        .limit(1)
+                    : [];
+                if (versionIdMarker && !markerVersion) return s3ErrorResponse(S3Errors.InvalidArgument('Invalid version id specified'));
+                conditions.push(markerVersion
+                    ? or(sql`${objects.key} > ${keyMarker}`, and(eq(objects.key, keyMarker), sql`${objects.id} < ${markerVersion.id}`))!
+                    : sql`${objects.key} > ${keyMarker}`);
+            }
+
+            // Versions of a key are returned newest first
+            const page = await collectListingPage<typeof objects.$inferSelect>({
+                prefix,
+                delimiter,
+                max: maxKeys,
+                keyMarker,
+                fetch: (after, limit) => db.select().from(objects)
+                    .where(and(...conditions, ...(after
+                        ? [or(sql`${objects.key} > ${after.key}`, and(eq(objects.key, after.key), sql`${objects.id} < ${after.id}`))!]
+                        : [])))
+                    .orderBy(objects.key, desc(objects.id))
+                    .limit(limit),
+            });
+
+            const body = xml.listObjectVersionsResponse({
+                name: bucketName,
+                prefix,
+                delimiter: delimiter || undefined,
+                maxKeys,
+                isTruncated: page.isTruncated,
+                keyMarker,
+                versionIdMarker,
+                nextKeyMarker: page.next?.key,
+                nextVersionIdMarker: page.next?.row?.versionId,
+                versions: page.entries.map((v) => ({
+                    key: v.key,
+                    versionId: v.versionId,
+                    isLatest: v.isLatest,
+                    isDeleteMarker: v.isDeleteMarker,
+                    lastModified: v.lastModified,
+                    etag: v.etag,
+                    size: v.size,
+                })),
+                commonPrefixes: page.commonPrefixes.length > 0 ? page.commonPrefixes : undefined,
+            });
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
+        // ListMultipartUploads — GET /:bucket?uploads
+        if (url.searchParams.has('uploads')) {
+            const prefix = url.searchParams.get('prefix') || '';
+            const delimiter = url.searchParams.get('delimiter') || '';
+            const maxUploads = Math.min(parseInt(url.searchParams.get('max-uploads') || '1000'), 1000);
+            const keyMarker = url.searchParams.get('key-marker') || '';
+            const uploadIdMarker = url.searchParams.get('upload-id-marker') || '';
+            if (!(maxUploads >= 0)) return s3ErrorResponse(S3Errors.InvalidArgument('max-uploads must be a non-negative integer'));
+
+            const conditions = [eq(multipartUploads.bucketId, bucket.id)];
+            if (prefix) conditions.push(like(multipartUploads.key, `${prefix}%`));
+
+            // Resume after key-marker, or after a specific upload of it when upload-id-marker is set
+            if (keyMarker) {
+                const [markerUpload] = uploadIdMarker
+                    ? await db.select({ id: multipartUploads.id }).from(multipartUploads)
+                        .where(and(eq(multipartUploads.bucketId, bucket.id), eq(multipartUploads.key, keyMarker), eq(multipartUploads.uploadId, uploadIdMarker)))
+                        .limit(1)
+                    : [];
+                conditions.push(markerUpload
+                    ? or(sql`${multipartUploads.key} > ${keyMarker}`, and(eq(multipartUploads.key, keyMarker), sql`${multipartUploads.id} > ${markerUpload.id}`))!
+                    : sql`${multipartUploads.key} > ${keyMarker}`);
+            }
+
+            // Uploads of a key are returned oldest first
+            const page = await collectListingPage<typeof multipartUploads.$inferSelect>({
+                prefix,
+                delimiter,
+                max: maxUploads,
+                keyMarker,
+                fetch: (after, limit) => db.select().from(multipartUploads)
+                    .where(and(...conditions, ...(after
+                        ? [or(sql`${multipartUploads.key} > ${after.key}`, and(eq(multipartUploads.key, after.key), sql`${multipartUploads.id} > ${after.id}`))!]
+                        : [])))
+                    .orderBy(multipartUploads.key, multipartUploads.id)
+                    .limit(limit),
+            });
+
+            const body = xml.listMultipartUploadsResponse({
+                bucket: bucketName,
+                prefix,
+                delimiter: delimiter || undefined,
+                maxUploads,
+                isTruncated: page.isTruncated,
+                keyMarker,
+                uploadIdMarker,
+                nextKeyMarker: page.next?.key,
+                nextUploadIdMarker: page.next?.row?.uploadId,
+                uploads: page.entries.map((u) => ({
+                    key: u.key,
+                    uploadId: u.uploadId,
+                    initiated: u.initiatedAt,
+                    checksumAlgorithm: u.checksumAlgorithm,
+                })),
+                commonPrefixes: page.commonPrefixes.length > 0 ? page.commonPrefixes : undefined,
+            });
+            return new Response(body, {
+                status: 200,
+                headers: { 'Content-Type': 'application/xml' },
+            });
+        }
+
         // Detect V1 vs V2: V2 uses "list-type=2", V1 uses "marker"
         const isV2 = (query as any)?.['list-type'] === '2';
         const prefix = (query as any)?.prefix || '';
@@ -171,12 +588,13 @@ export const bucketRoutes = new Elysia({ prefix: '' })
         // The cursor is either continuation-token (V2) or marker (V1)
         const cursor = continuationToken || marker || '';
 
-        // Query objects
+        // Query objects (current versions only — noncurrent versions and delete markers are hidden)
+        const currentOnly = and(eq(objects.bucketId, bucket.id), eq(objects.isLatest, true), eq(objects.isDeleteMarker, false));
         let q = db.select().from(objects)
             .where(
                 prefix
-                    ? and(eq(objects.bucketId, bucket.id), like(objects.key, `${prefix}%`))
-                    : eq(objects.bucketId, bucket.id)
+                    ? and(currentOnly, like(objects.key, `${prefix}%`))
+                    : currentOnly
             )
             .orderBy(objects.key)
             .limit(maxKeys + 1);
@@ -185,8 +603,8 @@ export const bucketRoutes = new Elysia({ prefix: '' })
             q = db.select().from(objects)
                 .where(
                     prefix
-                        ? and(eq(objects.bucketId, bucket.id), like(objects.key, `${prefix}%`), sql`${objects.key} > ${cursor}`)
-                        : and(eq(objects.bucketId, bucket.id), sql`${objects.key} > ${cursor}`)
+                        ? and(currentOnly, like(objects.key, `${prefix}%`), sql`${objects.key} > ${cursor}`)
+                        : and(currentOnly, sql`${objects.key} > ${cursor}`)
                 )
                 .orderBy(objects.key)
                 .limit(maxKeys + 1) as any;
@@ -256,3 +674,190 @@ export const bucketRoutes = new Elysia({ prefix: '' })
             headers: { 'Content-Type': 'application/xml' },
         });
     });
+
+// Rows read per query while a listing page is filled
+const LISTING_BATCH_SIZE = 1000;
+
+interface ListingPage<T> {
+    entries: T[];
+    commonPrefixes: string[];
+    isTruncated: boolean;
+    /** Where the next page resumes: the last entry's key and row, or the last CommonPrefix alone */
+    next?: { key: string; row?: T };
+}
+
+/**
+ * Fill one page of a versions or uploads listing. With a delimiter, keys are rolled up into
+ * CommonPrefixes while paging, so `max` counts each prefix once, like an entry, and a page
+ * that ends on a prefix resumes after all of it. A key-marker inside a prefix (a previous
+ * page's NextKeyMarker) skips the rest of that prefix too. `fetch` reads rows in key order,
+ * from the request's markers or, given `after`, past that row.
+ */
+async function collectListingPage<T extends { key: string }>(params: {
+    prefix: string;
+    delimiter: string;
+    max: number;
+    keyMarker: string;
+    fetch: (after: T | undefined, limit: number) => Promise<T[]>;
+}): Promise<ListingPage<T>> {
+    const { prefix, delimiter, max } = params;
+    const commonPrefixOf = (key: string): string | null => {
+        if (!delimiter || !key.startsWith(prefix)) return null;
+        const at = key.indexOf(delimiter, prefix.length);
+        return at >= 0 ? key.slice(0, at + delimiter.length) : null;
+    };
+
+    const page: ListingPage<T> = { entries: [], commonPrefixes: [], isTruncated: false };
+    // An empty page is never truncated, like S3's answer to max-keys=0
+    if (max === 0) return page;
+    // Keys sharing a prefix are adjacent in key order, so only the latest prefix needs remembering
+    let currentPrefix = params.keyMarker ? commonPrefixOf(params.keyMarker) : null;
+    let after: T | undefined;
+    while (true) {
+        const rows = await params.fetch(after, LISTING_BATCH_SIZE);
+        for (const row of rows) {
+            const commonPrefix = commonPrefixOf(row.key);
+            if (commonPrefix !== null && commonPrefix === currentPrefix) continue;
+
+            if (page.entries.length + page.commonPrefixes.length >= max) {
+                page.isTruncated = true;
+                return page;
+            }
+            if (commonPrefix !== null) {
+                page.commonPrefixes.push(commonPrefix);
+                currentPrefix = commonPrefix;
+                page.next = { key: commonPrefix };
+            } else {
+                page.entries.push(row);
+                page.next = { key: row.key, row };
+            }
+        }
+        if (rows.length < LISTING_BATCH_SIZE) {
+            page.next = undefined;
+            return page;
+        }
+        after = rows[rows.length - 1];
+    }
+}
+
+const DEFAULT_FEED_WAIT_SECONDS = 20;
+const DEFAULT_FEED_MAX_EVENTS = 100;
+const MAX_FEED_EVENTS = 1000;
+const SSE_KEEPALIVE_MS = 15_000;
+
+function parseFeedInt(value: string | null, fallback: number, min: number, max: number): number | null {
+    if (value === null || value === '') return fallback;
+    if (!/^\d+$/.test(value)) return null;
+    const n = parseInt(value);
+    return n >= min ? Math.min(n, max) : null;
+}
+
+/**
+ * Change feed over the bucket's event log. `?events=` takes a comma-separated event list
+ * (default: all created and removed events), `prefix` / `suffix` filter keys, and `cursor`
+ * (or SSE's `Last-Event-ID`) resumes after an earlier event — without one only new events are sent.
+ */
+async function handleBucketEvents(request: Request, bucketName: string, accessKeyId: string, server: Server | null): Promise<Response> {
+    // Public-read never covers the feed, but a policy granting it to "*" would — the feed stays signed-only
+    if (accessKeyId === 'anonymous') return s3ErrorResponse(S3Errors.MissingSecurityHeader());
+
+    const params = new URL(request.url).searchParams;
+    const events = params.get('events') ? params.get('events')!.split(',').map((e) => e.trim()) : ['s3:ObjectCreated:*', 's3:ObjectRemoved:*'];
+    const unknown = events.find((e) => !SUPPORTED_EVENTS.includes(e));
+    if (unknown) return s3ErrorResponse(S3Errors.InvalidArgument(`Unsupported event: ${unknown}`));
+    const filter: EventFilter = {
+        events,
+        prefix: params.get('prefix') || undefined,
+        suffix: params.get('suffix') || undefined,
+    };
+
+    const cursorParam = params.get('cursor') ?? request.headers.get('last-event-id');
+    if (cursorParam !== null && !/^\d+$/.test(cursorParam)) {
+        return s3ErrorResponse(S3Errors.InvalidArgument('cursor must be a non-negative integer'));
+    }
+    let cursor = cursorParam !== null ? parseInt(cursorParam) : await latestEventCursor(bucketName);
+
+    const limit = parseFeedInt(params.get('max-events'), DEFAULT_FEED_MAX_EVENTS, 1, MAX_FEED_EVENTS);
+    if (limit === null) return s3ErrorResponse(S3Errors.InvalidArgument('max-events must be a positive integer'));
+
+    // Listeners outlive Bun's default idle timeout
+    server?.timeout(request, 0);
+
+    if (request.headers.get('accept')?.includes('text/event-stream')) {
+        const closed = new AbortController();
+        request.signal.addEventListener('abort', () => closed.abort());
+        const encoder = new TextEncoder();
+
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+                try {
+                    send(`retry: 3000\n\n`);
+                    while (!closed.signal.aborted) {
+                        // Listen before reading, so an event logged while the read runs is not slept through
+                        const listener = listenForBucketEvent(bucketName);
+                        try {
+                            const batch = await readBucketEvents(bucketName, cursor, filter, limit);
+                            cursor = batch.cursor;
+                            for (const event of batch.events) {
+                                send(`id: ${event.id}\nevent: ${event.eventName}\ndata: ${JSON.stringify({ Records: [event.record] })}\n\n`);
+                            }
+                            if (batch.hasMore) continue;
+                            const woken = await listener.wait(SSE_KEEPALIVE_MS, closed.signal);
+                            if (!woken && !closed.signal.aborted) send(': keepalive\n\n');
+                        } finally {
+                            listener.cancel();
+                        }
+                    }
+                    controller.close();
+                } catch (err) {
+                    // Enqueueing after the client disconnected throws — nothing left to do
+                    if (closed.signal.aborted) return;
+                    // Otherwise (a failed read) end the stream, so the client reconnects from its last event ID
+                    console.error(`[EventFeed] Stream for ${bucketName} failed:`, err);
+                    controller.error(err);
+                }
+            },
+            cancel() {
+                closed.abort();
+            },
+        });
+
+        return new Response(stream, {
+            status: 200,
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+            },
+        });
+    }
+
+    // Long-poll: answer as soon as something matches, or with an empty batch after `wait` seconds
+    const wait = parseFeedInt(params.get('wait'), DEFAULT_FEED_WAIT_SECONDS, 0, env.eventFeed.maxWaitSeconds);
+    if (wait === null) return s3ErrorResponse(S3Errors.InvalidArgument('wait must be a non-negative integer'));
+
+    const deadline = Date.now() + wait * 1000;
+    let records: object[] = [];
+    while (true) {
+        const listener = listenForBucketEvent(bucketName);
+        try {
+            const batch = await readBucketEvents(bucketName, cursor, filter, limit);
+            cursor = batch.cursor;
+            records = batch.events.map((e) => e.record);
+            if (records.length > 0 || request.signal.aborted) break;
+            if (batch.hasMore) continue;
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) break;
+            await listener.wait(remaining, request.signal);
+        } finally {
+            listener.cancel();
+        }
+    }
+
+    return new Response(JSON.stringify({ Records: records, NextCursor: String(cursor) }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
@@ -1,12 +1,24 @@
 import { Elysia } from 'elysia';
 import { db } from '../../db/connection';
-import { buckets, objects, multipartUploads, multipartParts } from '../../db/schema';
+import { buckets, objects, objectParts, multipartUploads, multipartParts } from '../../db/schema';
 import { eq, and } from 'drizzle-orm';
 import { s3Auth } from '../../middleware/s3-auth';
 import { storage } from '../../lib/storage/filesystem';
 import { xml } from '../../lib/xml/builder';
 import { S3Errors, s3ErrorResponse } from '../../lib/errors';
 import { computeETag, computeMultipartETag } from '../../lib/auth/signature-v4';
+import { findObjectVersion, supersedeCurrentVersion, withKeyWriteLock } from '../../lib/versioning';
+import { parseTaggingHeader, parseStoredTags, validateTags, setObjectTags } from '../../lib/tagging';
+import { resolveObjectLockHeaders, parseStoredObjectLock, checkOverwriteAllowed } from '../../lib/object-lock';
+import { notifyBucketEvent } from '../../lib/notifications';
+import { parseCustomerKey, hashCustomerKey, customerKeyHeaders, resolveServerSideEncryption } from '../../lib/encryption';
+import {
+    CHECKSUM_ALGORITHMS, parseChecksumAlgorithm, checksumElementName, compositeChecksum,
+    type Checksum, type ChecksumAlgorithm,
+} from '../../lib/checksums';
+import { parseWriteConditions, checkWriteConditions } from '../../lib/conditions';
+import { findMultipartUpload } from '../../lib/multipart-gc';
+import { handleSelectObjectContent } from './object';
 import { v4 as uuidv4 } from 'uuid';
 
 export const multipartRoutes = new Elysia({ prefix: '' })
@@ -17,8 +29,10 @@ export const multipartRoutes = new Elysia({ prefix: '' })
     // AbortMultipartUpload — DELETE /:bucket/*?uploadId=X
     // ListParts — GET /:bucket/*?uploadId=X
 
-    // POST handlers (CreateMultipartUpload & CompleteMultipartUpload)
-    .post('/:bucket/*', async ({ params, request, s3Error, ownerId, bodyBuffer }) => {
+    // SelectObjectContent — POST /:bucket/*?select&select-type=2 (handled in object.ts)
+
+    // POST handlers (CreateMultipartUpload, CompleteMultipartUpload & SelectObjectContent)
+    .post('/:bucket/*', async ({ params, request, s3Error, ownerId, accessKeyId, bodyBuffer }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
 
         const url = new URL(request.url);
@@ -31,6 +45,11 @@ export const multipartRoutes = new Elysia({ prefix: '' })
 
         if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
 
+        // SelectObjectContent (POST /:bucket/:key?select&select-type=2)
+        if (url.searchParams.has('select')) {
+            return handleSelectObjectContent(request, bucket, key, bodyBuffer);
+        }
+
         // CreateMultipartUpload (POST /:bucket/:key?uploads)
         if (url.searchParams.has('uploads')) {
             const uploadId = uuidv4();
@@ -43,34 +62,70 @@ export const multipartRoutes = new Elysia({ prefix: '' })
                 }
             });
 
+            // Tags are applied to the object once the upload completes
+            const taggingHeader = request.headers.get('x-amz-tagging');
+            const tags = taggingHeader ? parseTaggingHeader(taggingHeader) : [];
+            const tagError = validateTags(tags);
+            if (tagError) return s3ErrorResponse(S3Errors.InvalidTag(tagError));
+
+            const lock = resolveObjectLockHeaders(bucket, request.headers);
+            if ('code' in lock) return s3ErrorResponse(lock);
+            const hasLock = lock.retentionMode !== null || lock.legalHold;
+
+            const customerKey = parseCustomerKey(request.headers);
+            if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+            // The data key is generated now and wrapped on the upload row, so every part shares it
+            const sse = resolveServerSideEncryption(bucket, request.headers, customerKey);
+            if ('code' in sse) return s3ErrorResponse(sse);
+
+            const checksumAlgorithmHeader = request.headers.get('x-amz-checksum-algorithm');
+            const checksumAlgorithm = checksumAlgorithmHeader ? parseChecksumAlgorithm(checksumAlgorithmHeader) : null;
+            if (checksumAlgorithmHeader && !checksumAlgorithm) {
+                return s3ErrorResponse(S3Errors.InvalidRequest('Value for x-amz-checksum-algorithm header is invalid.'));
+            }
+            // Only per-part (COMPOSITE) checksums are kept for multipart objects
+            const checksumType = request.headers.get('x-amz-checksum-type');
+            if (checksumType && checksumType.toUpperCase() !== 'COMPOSITE') {
+                return s3ErrorResponse(S3Errors.InvalidRequest('Only the COMPOSITE checksum type is supported for multipart uploads.'));
+            }
+
             await db.insert(multipartUploads).values({
                 uploadId,
                 bucketId: bucket.id,
                 key,
                 contentType,
                 metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
+                tagging: tags.length > 0 ? JSON.stringify(tags) : null,
+                objectLock: hasLock ? JSON.stringify(lock) : null,
+                sseCustomerAlgorithm: customerKey?.algorithm ?? null,
+                sseCustomerKeyHash: customerKey ? hashCustomerKey(customerKey.key) : null,
+                ...sse.columns,
+                checksumAlgorithm,
             });
 
             const body = xml.initiateMultipartUploadResponse(bucketName, key, uploadId);
             return new Response(body, {
                 status: 200,
-                headers: { 'Content-Type': 'application/xml' },
+                headers: {
+                    'Content-Type': 'application/xml',
+                    ...(sse.columns.serverSideEncryption ? { 'x-amz-server-side-encryption': sse.columns.serverSideEncryption } : {}),
+                    ...(customerKey ? customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5) : {}),
+                    ...(checksumAlgorithm ? { 'x-amz-checksum-algorithm': checksumAlgorithm, 'x-amz-checksum-type': 'COMPOSITE' } : {}),
+                },
             });
         }
 
         // CompleteMultipartUpload (POST /:bucket/:key?uploadId=X)
         const uploadId = url.searchParams.get('uploadId');
         if (uploadId) {
-            const [upload] = await db.select().from(multipartUploads)
-                .where(eq(multipartUploads.uploadId, uploadId))
-                .limit(1);
+            const upload = await findMultipartUpload(bucketName, key, uploadId);
 
             if (!upload) return s3ErrorResponse(S3Errors.NoSuchUpload(uploadId));
 
             // Parse request body for part list
             const bodyText = bodyBuffer.toString('utf-8');
             const parsed = xml.parse(bodyText);
-            let partList: { PartNumber: number | string; ETag: string }[] = [];
+            let partList: ({ PartNumber: number | string; ETag: string } & Record<string, unknown>)[] = [];
             const partObj = parsed?.CompleteMultipartUpload?.Part;
             if (Array.isArray(partObj)) {
                 partList = partObj;
@@ -87,6 +142,11 @@ export const multipartRoutes = new Elysia({ prefix: '' })
             // Validate parts
             const assemblyParts: { partNumber: number; storagePath: string }[] = [];
             const partETags: string[] = [];
+            const partChecksums: string[] = [];
+            // Kept as object_parts once the upload is complete
+            const partLayout: { partNumber: number; size: number; etag: string; checksumAlgorithm: string | null; checksumValue: string | null }[] = [];
+            // Part sizes are plaintext sizes — SSE-C parts take more room on disk
+            let size = 0;
 
             for (const part of partList) {
                 const partNumber = typeof part.PartNumber === 'string' ? parseInt(part.PartNumber) : part.PartNumber;
@@ -94,29 +154,51 @@ export const multipartRoutes = new Elysia({ prefix: '' })
                 if (!stored) {
                     return s3ErrorResponse(S3Errors.InvalidArgument(`Part ${partNumber} not found`));
                 }
+                // A checksum listed for a part must be the one it was uploaded with
+                for (const algorithm of CHECKSUM_ALGORITHMS) {
+                    const listed = part[checksumElementName(algorithm)];
+                    if (listed === undefined) continue;
+                    if (stored.checksumAlgorithm !== algorithm || stored.checksumValue !== String(listed)) {
+                        return s3ErrorResponse(S3Errors.InvalidPart(`The ${checksumElementName(algorithm)} of part ${partNumber} did not match the checksum it was uploaded with.`));
+                    }
+                }
                 assemblyParts.push({ partNumber, storagePath: stored.storagePath });
                 partETags.push(stored.etag);
+                if (stored.checksumValue) partChecksums.push(stored.checksumValue);
+                partLayout.push({
+                    partNumber,
+                    size: stored.size,
+                    etag: stored.etag,
+                    checksumAlgorithm: stored.checksumAlgorithm,
+                    checksumValue: stored.checksumValue,
+                });
+                size += stored.size;
             }
 
-            // Assemble final object
-            const { size, storagePath } = await storage.assembleMultipartUpload(uploadId, assemblyParts, bucketName, key);
+            // Parts always carry the upload's algorithm (UploadPart computes it when the client didn't)
+            const checksumAlgorithm = upload.checksumAlgorithm as ChecksumAlgorithm | null;
+            const checksum: Checksum | null = checksumAlgorithm && partChecksums.length === assemblyParts.length
+                ? { algorithm: checksumAlgorithm, value: compositeChecksum(checksumAlgorithm, partChecksums) }
+                : null;
+
+            const conditions = parseWriteConditions(request.headers);
+            if (conditions && 'code' in conditions) return s3ErrorResponse(conditions);
             const etag = computeMultipartETag(partETags, partETags.length);
 
-            // Upsert object record
-            const [existing] = await db.select().from(objects)
-                .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)))
-                .limit(1);
+            // A failed precondition leaves the upload in place so it can be completed again
+            const written = await withKeyWriteLock(bucket.id, key, async () => {
+                const overwriteError = await checkOverwriteAllowed(bucket, key);
+                if (overwriteError) return overwriteError;
+                if (conditions) {
+                    const conditionError = checkWriteConditions(conditions, await findObjectVersion(bucket.id, key), key);
+                    if (conditionError) return conditionError;
+                }
 
-            if (existing) {
-                await db.update(objects).set({
-                    size,
-                    etag,
-                    contentType: upload.contentType,
-                    storagePath,
-                    metadata: upload.metadata,
-                }).where(eq(objects.id, existing.id));
-            } else {
-                await db.insert(objects).values({
+                // Assemble final object
+                const versionId = await supersedeCurrentVersion(bucket, key);
+                const { storagePath } = await storage.assembleMultipartUpload(uploadId, assemblyParts, bucketName, key);
+
+                const [inserted] = await db.insert(objects).values({
                     bucketId: bucket.id,
                     key,
                     size,
@@ -124,19 +206,40 @@ export const multipartRoutes = new Elysia({ prefix: '' })
                     contentType: upload.contentType,
                     storagePath,
                     metadata: upload.metadata,
-                });
-            }
+                    versionId,
+                    ...parseStoredObjectLock(upload.objectLock),
+                    sseCustomerAlgorithm: upload.sseCustomerAlgorithm,
+                    sseCustomerKeyHash: upload.sseCustomerKeyHash,
+                    serverSideEncryption: upload.serverSideEncryption,
+                    encryptedDataKey: upload.encryptedDataKey,
+                    masterKeyId: upload.masterKeyId,
+                    checksumAlgorithm: checksum?.algorithm ?? null,
+                    checksumValue: checksum?.value ?? null,
+                }).$returningId();
+                await setObjectTags(inserted!.id, parseStoredTags(upload.tagging));
+                if (partLayout.length > 0) {
+                    await db.insert(objectParts).values(partLayout.map((p) => ({ objectId: inserted!.id, ...p })));
+                }
+
+                // Cleanup multipart records
+                await db.delete(multipartParts).where(eq(multipartParts.uploadId, uploadId));
+                await db.delete(multipartUploads).where(eq(multipartUploads.uploadId, uploadId));
+                return { versionId };
+            }, !conditions);
+            if (!written) return s3ErrorResponse(S3Errors.ConditionalRequestConflict());
+            if ('code' in written) return s3ErrorResponse(written);
+            const { versionId } = written;
 
-            // Cleanup multipart records
-            await db.delete(multipartParts).where(eq(multipartParts.uploadId, uploadId));
-            await db.delete(multipartUploads).where(eq(multipartUploads.uploadId, uploadId));
+            await notifyBucketEvent(bucket, 's3:ObjectCreated:CompleteMultipartUpload', {
+                key, size, etag, versionId: bucket.versioning ? versionId : undefined,
+            }, request, accessKeyId);
 
             const location = `/${bucketName}/${key}`;
-            const body = xml.completeMultipartUploadResponse(location, bucketName, key, etag);
-            return new Response(body, {
-                status: 200,
-                headers: { 'Content-Type': 'application/xml' },
-            });
+            const body = xml.completeMultipartUploadResponse(location, bucketName, key, etag, checksum);
+            const headers: Record<string, string> = { 'Content-Type': 'application/xml' };
+            if (bucket.versioning) headers['x-amz-version-id'] = versionId;
+            if (upload.serverSideEncryption) headers['x-amz-server-side-encryption'] = upload.serverSideEncryption;
+            return new Response(body, { status: 200, headers });
         }
 
         return s3ErrorResponse(S3Errors.InvalidArgument('Missing uploads or uploadId parameter'));
@@ -1,17 +1,44 @@
 import { Elysia } from 'elysia';
 import { db } from '../../db/connection';
-import { buckets, objects, multipartUploads, multipartParts } from '../../db/schema';
-import { eq, and, sum } from 'drizzle-orm';
-import { s3Auth } from '../../middleware/s3-auth';
+import { buckets, objects, objectParts, multipartUploads, multipartParts } from '../../db/schema';
+import { eq, and, gt, sum, count } from 'drizzle-orm';
+import { s3Auth, type Authorizer } from '../../middleware/s3-auth';
 import { storage } from '../../lib/storage/filesystem';
 import { xml } from '../../lib/xml/builder';
-import { S3Errors, s3ErrorResponse } from '../../lib/errors';
+import { S3Errors, s3ErrorResponse, type S3Error } from '../../lib/errors';
 import { computeETag } from '../../lib/auth/signature-v4';
+import { abortMultipartUpload, findMultipartUpload } from '../../lib/multipart-gc';
+import { findObjectVersion, supersedeCurrentVersion, deleteCurrentVersion, deleteSpecificVersion, withKeyWriteLock } from '../../lib/versioning';
+import { parseTaggingHeader, parseTaggingXml, validateTags, getObjectTags, setObjectTags, countObjectTags, type Tag } from '../../lib/tagging';
+import {
+    getBucketObjectLock, resolveObjectLockHeaders, objectLockHeaders, parseRetention, parseLegalHold,
+    checkVersionDeletable, checkRetentionChange, checkOverwriteAllowed, type RetentionMode,
+} from '../../lib/object-lock';
+import { notifyBucketEvent } from '../../lib/notifications';
+import {
+    parseCustomerKey, hashCustomerKey, checkCustomerKey, customerKeyHeaders, encryptObjectData,
+    resolveServerSideEncryption, objectEncryptionKey, unwrapDataKey, type CustomerKey,
+} from '../../lib/encryption';
+import {
+    parseRequestChecksum, parseChecksumAlgorithm, verifyChecksum, verifyContentMd5, computeChecksum, checksumHeaderName,
+    checksumHeaders, storedChecksum, isCompositeChecksum, type Checksum, type ChecksumAlgorithm,
+} from '../../lib/checksums';
+import { parsePostPolicy, checkPostPolicy, resolvePostKey, type PostForm } from '../../lib/post-policy';
+import { parseQuery } from '../../lib/select/query';
+import { parseSelectRequest } from '../../lib/select/formats';
+import { selectEventStream } from '../../lib/select/event-stream';
+import {
+    evaluateReadConditions, checkCopySourceConditions, parseWriteConditions, checkWriteConditions,
+} from '../../lib/conditions';
+
+type BucketRecord = typeof buckets.$inferSelect;
+type ObjectRecord = typeof objects.$inferSelect;
+type UploadRecord = typeof multipartUploads.$inferSelect;
 
 export const objectRoutes = new Elysia({ prefix: '' })
     .use(s3Auth)
     // PutObject / UploadPart — PUT /:bucket/*
-    .put('/:bucket/*', async ({ params, request, s3Error, ownerId, bodyBuffer }) => {
+    .put('/:bucket/*', async ({ params, request, s3Error, ownerId, accessKeyId, bodyBuffer, trailers, authorize }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
 
         const bucketName = params.bucket;
@@ -19,49 +46,56 @@ export const objectRoutes = new Elysia({ prefix: '' })
         if (!key) return s3ErrorResponse(S3Errors.InvalidArgument('Object key is required'));
 
         const url = new URL(request.url);
+        if (url.searchParams.has('tagging')) {
+            return handleObjectTagging(request, bucketName, key, bodyBuffer);
+        }
+        if (url.searchParams.has('retention') || url.searchParams.has('legal-hold')) {
+            return handleObjectLock(request, bucketName, key, authorize, bodyBuffer);
+        }
+
         const uploadId = url.searchParams.get('uploadId');
         const partNumberStr = url.searchParams.get('partNumber');
 
         if (uploadId && partNumberStr) {
             const partNumber = parseInt(partNumberStr);
-            const [upload] = await db.select().from(multipartUploads)
-                .where(eq(multipartUploads.uploadId, uploadId))
-                .limit(1);
+            const upload = await findMultipartUpload(bucketName, key, uploadId);
 
             if (!upload) return s3ErrorResponse(S3Errors.NoSuchUpload(uploadId));
 
-            const etag = computeETag(bodyBuffer);
-            const partPath = await storage.writeMultipartPart(uploadId, partNumber, bodyBuffer);
-
-            const [existingPart] = await db.select().from(multipartParts)
-                .where(and(eq(multipartParts.uploadId, uploadId), eq(multipartParts.partNumber, partNumber)))
-                .limit(1);
-
-            if (existingPart) {
-                await db.update(multipartParts).set({
-                    size: bodyBuffer.length,
-                    etag,
-                    storagePath: partPath,
-                }).where(eq(multipartParts.id, existingPart.id));
-            } else {
-                await db.insert(multipartParts).values({
-                    uploadId,
-                    partNumber,
-                    size: bodyBuffer.length,
-                    etag,
-                    storagePath: partPath,
-                });
+            const customerKey = parseCustomerKey(request.headers);
+            if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+            const keyError = checkCustomerKey(upload.sseCustomerKeyHash, customerKey);
+            if (keyError) return s3ErrorResponse(keyError);
+
+            // UploadPartCopy — the part is a byte range of an existing object
+            const partCopySource = request.headers.get('x-amz-copy-source');
+            if (partCopySource) {
+                return handleUploadPartCopy(request, upload, partNumber, partCopySource, customerKey, authorize);
             }
 
+            // Every digest is checked before the part touches disk
+            const etag = computeETag(bodyBuffer);
+            const md5Error = verifyContentMd5(request.headers, etag);
+            if (md5Error) return s3ErrorResponse(md5Error);
+            const checksum = resolvePartChecksum(upload.checksumAlgorithm, request.headers, bodyBuffer, trailers);
+            if (checksum && 'code' in checksum) return s3ErrorResponse(checksum);
+
+            await storeMultipartPart(upload, partNumber, bodyBuffer, etag, checksum, customerKey);
+
             return new Response(null, {
                 status: 200,
-                headers: { ETag: `"${etag}"` },
+                headers: {
+                    ETag: `"${etag}"`,
+                    ...(checksum ? { [checksumHeaderName(checksum.algorithm)]: checksum.value } : {}),
+                    ...(upload.serverSideEncryption ? { 'x-amz-server-side-encryption': upload.serverSideEncryption } : {}),
+                    ...(customerKey ? customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5) : {}),
+                },
             });
         }
 
         const copySource = request.headers.get('x-amz-copy-source');
         if (copySource) {
-            return handleCopyObject(bucketName, key, copySource, ownerId);
+            return handleCopyObject(request, bucketName, key, copySource, ownerId, accessKeyId, authorize);
         }
 
         // Normal PutObject
@@ -71,59 +105,13 @@ export const objectRoutes = new Elysia({ prefix: '' })
 
         if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
 
-        // Quota enforcement
-        if (bucket.maxSize > 0) {
-            const [usage] = await db.select({ totalSize: sum(objects.size) })
-                .from(objects).where(eq(objects.bucketId, bucket.id));
-            const currentSize = Number(usage?.totalSize || 0);
-            if (currentSize + bodyBuffer.length > bucket.maxSize) {
-                return s3ErrorResponse(S3Errors.EntityTooLarge());
-            }
-        }
-
-        const etag = computeETag(bodyBuffer);
-        const contentType = request.headers.get('content-type') || 'application/octet-stream';
-
-        const metadata: Record<string, string> = {};
-        request.headers.forEach((value, headerKey) => {
-            if (headerKey.toLowerCase().startsWith('x-amz-meta-')) {
-                metadata[headerKey.toLowerCase().slice(11)] = value;
-            }
-        });
-
-        const { size, storagePath } = await storage.writeObject(bucketName, key, bodyBuffer);
-
-        const [existing] = await db.select().from(objects)
-            .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)))
-            .limit(1);
+        const stored = await putObject(request, bucket, key, request.headers, bodyBuffer, accessKeyId, 's3:ObjectCreated:Put', trailers);
+        if ('code' in stored) return s3ErrorResponse(stored);
 
-        if (existing) {
-            await db.update(objects).set({
-                size,
-                etag,
-                contentType,
-                storagePath,
-                metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
-            }).where(eq(objects.id, existing.id));
-        } else {
-            await db.insert(objects).values({
-                bucketId: bucket.id,
-                key,
-                size,
-                etag,
-                contentType,
-                storagePath,
-                metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
-            });
-        }
-
-        return new Response(null, {
-            status: 200,
-            headers: { ETag: `"${etag}"` },
-        });
+        return new Response(null, { status: 200, headers: stored.headers });
     })
     // GetObject / ListParts — GET /:bucket/*
-    .get('/:bucket/*', async ({ params, request, s3Error }) => {
+    .get('/:bucket/*', async ({ params, request, s3Error, authorize }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
 
         const bucketName = params.bucket;
@@ -132,18 +120,41 @@ export const objectRoutes = new Elysia({ prefix: '' })
 
         const url = new URL(request.url);
 
+        // GetObjectTagging — GET /:bucket/*?tagging
+        if (url.searchParams.has('tagging')) {
+            return handleObjectTagging(request, bucketName, key);
+        }
+
+        // GetObjectRetention / GetObjectLegalHold — GET /:bucket/*?retention | ?legal-hold
+        if (url.searchParams.has('retention') || url.searchParams.has('legal-hold')) {
+            return handleObjectLock(request, bucketName, key, authorize);
+        }
+
+        // GetObjectAttributes — GET /:bucket/*?attributes
+        if (url.searchParams.has('attributes')) {
+            return handleObjectAttributes(request, bucketName, key);
+        }
+
         // ListParts — GET /:bucket/*?uploadId=X
         const uploadId = url.searchParams.get('uploadId');
         if (uploadId) {
-            const [upload] = await db.select().from(multipartUploads)
-                .where(eq(multipartUploads.uploadId, uploadId))
-                .limit(1);
+            const upload = await findMultipartUpload(bucketName, key, uploadId);
 
             if (!upload) return s3ErrorResponse(S3Errors.NoSuchUpload(uploadId));
 
-            const parts = await db.select().from(multipartParts)
-                .where(eq(multipartParts.uploadId, uploadId))
-                .orderBy(multipartParts.partNumber);
+            const maxParts = Math.min(parseInt(url.searchParams.get('max-parts') || '1000'), 1000);
+            const partNumberMarker = parseInt(url.searchParams.get('part-number-marker') || '0');
+            if (!(maxParts >= 0) || !(partNumberMarker >= 0)) {
+                return s3ErrorResponse(S3Errors.InvalidArgument('max-parts and part-number-marker must be non-negative integers'));
+            }
+
+            const allParts = await db.select().from(multipartParts)
+                .where(and(eq(multipartParts.uploadId, uploadId), gt(multipartParts.partNumber, partNumberMarker)))
+                .orderBy(multipartParts.partNumber)
+                .limit(maxParts + 1);
+
+            const isTruncated = allParts.length > maxParts;
+            const parts = allParts.slice(0, maxParts);
 
             const body = xml.listPartsResponse({
                 bucket: bucketName,
@@ -154,9 +165,13 @@ export const objectRoutes = new Elysia({ prefix: '' })
                     lastModified: p.createdAt,
                     etag: p.etag,
                     size: p.size,
+                    checksum: storedChecksum(p),
                 })),
-                isTruncated: false,
-                maxParts: 1000,
+                isTruncated,
+                maxParts,
+                partNumberMarker,
+                nextPartNumberMarker: isTruncated ? parts[parts.length - 1]?.partNumber : undefined,
+                checksumAlgorithm: upload.checksumAlgorithm,
             });
 
             return new Response(body, {
@@ -172,11 +187,20 @@ export const objectRoutes = new Elysia({ prefix: '' })
 
         if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
 
-        const [obj] = await db.select().from(objects)
-            .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)))
-            .limit(1);
+        const versionId = url.searchParams.get('versionId');
+        const obj = await findObjectVersion(bucket.id, key, versionId);
+
+        if (!obj) return s3ErrorResponse(versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key));
+        if (obj.isDeleteMarker) return deleteMarkerResponse(obj.versionId, key, !!versionId);
 
-        if (!obj) return s3ErrorResponse(S3Errors.NoSuchKey(key));
+        const customerKey = parseCustomerKey(request.headers);
+        if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+        const keyError = checkCustomerKey(obj.sseCustomerKeyHash, customerKey);
+        if (keyError) return s3ErrorResponse(keyError);
+
+        const precondition = evaluateReadConditions(request.headers, obj);
+        if (precondition === 'failed') return s3ErrorResponse(S3Errors.PreconditionFailed());
+        if (precondition === 'not-modified') return notModifiedResponse(obj, !!bucket.versioning);
 
         // Parse Range header
         const rangeHeader = request.headers.get('range');
@@ -200,6 +224,17 @@ export const objectRoutes = new Elysia({ prefix: '' })
             'Last-Modified': obj.lastModified.toUTCString(),
             'Accept-Ranges': 'bytes',
         };
+        if (bucket.versioning) responseHeaders['x-amz-version-id'] = obj.versionId;
+
+        const tagCount = await countObjectTags(obj.id);
+        if (tagCount > 0) responseHeaders['x-amz-tagging-count'] = String(tagCount);
+        Object.assign(responseHeaders, objectLockHeaders(obj));
+        if (obj.websiteRedirectLocation) responseHeaders['x-amz-website-redirect-location'] = obj.websiteRedirectLocation;
+        if (obj.serverSideEncryption) responseHeaders['x-amz-server-side-encryption'] = obj.serverSideEncryption;
+        if (customerKey) Object.assign(responseHeaders, customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5));
+        // A stored checksum covers the whole object, so ranged reads don't report it
+        const checksum = storedChecksum(obj);
+        if (checksum && !range && checksumModeEnabled(request)) Object.assign(responseHeaders, checksumHeaders(checksum));
 
         if (obj.metadata) {
             try {
@@ -210,19 +245,22 @@ export const objectRoutes = new Elysia({ prefix: '' })
             } catch { /* ignore */ }
         }
 
+        const archivedVersionId = obj.isLatest ? undefined : obj.versionId;
+        const encryptionKey = objectEncryptionKey(obj, customerKey);
+
         if (range) {
-            const { body, size } = await storage.readObject(bucketName, key, range);
+            const { body, size } = await storage.readObject(bucketName, key, range, archivedVersionId, encryptionKey);
             responseHeaders['Content-Length'] = String(size);
             responseHeaders['Content-Range'] = `bytes ${range.start}-${range.end}/${obj.size}`;
             return new Response(body, { status: 206, headers: responseHeaders });
         }
 
-        const data = await storage.readObjectAsBuffer(bucketName, key);
+        const data = await storage.readObjectAsBuffer(bucketName, key, archivedVersionId, encryptionKey);
         responseHeaders['Content-Length'] = String(data.length);
         return new Response(data, { status: 200, headers: responseHeaders });
     })
     // HeadObject — HEAD /:bucket/*
-    .head('/:bucket/*', async ({ params, s3Error }) => {
+    .head('/:bucket/*', async ({ params, request, s3Error }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
 
         const bucketName = params.bucket;
@@ -235,11 +273,20 @@ export const objectRoutes = new Elysia({ prefix: '' })
 
         if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
 
-        const [obj] = await db.select().from(objects)
-            .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)))
-            .limit(1);
+        const versionId = new URL(request.url).searchParams.get('versionId');
+        const obj = await findObjectVersion(bucket.id, key, versionId);
 
-        if (!obj) return s3ErrorResponse(S3Errors.NoSuchKey(key));
+        if (!obj) return s3ErrorResponse(versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key));
+        if (obj.isDeleteMarker) return deleteMarkerResponse(obj.versionId, key, !!versionId);
+
+        const customerKey = parseCustomerKey(request.headers);
+        if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+        const keyError = checkCustomerKey(obj.sseCustomerKeyHash, customerKey);
+        if (keyError) return s3ErrorResponse(keyError);
+
+        const precondition = evaluateReadConditions(request.headers, obj);
+        if (precondition === 'failed') return s3ErrorResponse(S3Errors.PreconditionFailed());
+        if (precondition === 'not-modified') return notModifiedResponse(obj, !!bucket.versioning);
 
         const headers: Record<string, string> = {
             'Content-Type': obj.contentType,
@@ -248,6 +295,16 @@ export const objectRoutes = new Elysia({ prefix: '' })
             'Last-Modified': obj.lastModified.toUTCString(),
             'Accept-Ranges': 'bytes',
         };
+        if (bucket.versioning) headers['x-amz-version-id'] = obj.versionId;
+
+        const tagCount = await countObjectTags(obj.id);
+        if (tagCount > 0) headers['x-amz-tagging-count'] = String(tagCount);
+        Object.assign(headers, objectLockHeaders(obj));
+        if (obj.websiteRedirectLocation) headers['x-amz-website-redirect-location'] = obj.websiteRedirectLocation;
+        if (obj.serverSideEncryption) headers['x-amz-server-side-encryption'] = obj.serverSideEncryption;
+        if (customerKey) Object.assign(headers, customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5));
+        const checksum = storedChecksum(obj);
+        if (checksum && checksumModeEnabled(request)) Object.assign(headers, checksumHeaders(checksum));
 
         if (obj.metadata) {
             try {
@@ -261,7 +318,7 @@ export const objectRoutes = new Elysia({ prefix: '' })
         return new Response(null, { status: 200, headers });
     })
     // DeleteObject or AbortMultipartUpload — DELETE /:bucket/*
-    .delete('/:bucket/*', async ({ params, request, s3Error }) => {
+    .delete('/:bucket/*', async ({ params, request, s3Error, accessKeyId, authorize }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
 
         const bucketName = params.bucket;
@@ -269,19 +326,22 @@ export const objectRoutes = new Elysia({ prefix: '' })
         if (!key) return s3ErrorResponse(S3Errors.InvalidArgument('Object key is required'));
 
         const url = new URL(request.url);
+
+        // DeleteObjectTagging — DELETE /:bucket/*?tagging
+        if (url.searchParams.has('tagging')) {
+            return handleObjectTagging(request, bucketName, key);
+        }
+
         const uploadId = url.searchParams.get('uploadId');
 
         // AbortMultipartUpload — DELETE /:bucket/*?uploadId=X
         if (uploadId) {
-            const [upload] = await db.select().from(multipartUploads)
-                .where(eq(multipartUploads.uploadId, uploadId))
-                .limit(1);
+            const upload = await findMultipartUpload(bucketName, key, uploadId);
 
             if (!upload) return s3ErrorResponse(S3Errors.NoSuchUpload(uploadId));
 
-            await storage.cleanupMultipart(uploadId);
-            await db.delete(multipartParts).where(eq(multipartParts.uploadId, uploadId));
-            await db.delete(multipartUploads).where(eq(multipartUploads.uploadId, uploadId));
+            // Not while a CompleteMultipartUpload is assembling the parts
+            await withKeyWriteLock(upload.bucketId, key, () => abortMultipartUpload(uploadId));
 
             return new Response(null, { status: 204 });
         }
@@ -293,21 +353,49 @@ export const objectRoutes = new Elysia({ prefix: '' })
 
         if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
 
-        const [obj] = await db.select().from(objects)
-            .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, key)))
-            .limit(1);
-
-        if (obj) {
-            await storage.deleteObject(bucketName, key);
-            await db.delete(objects).where(eq(objects.id, obj.id));
+        const versionId = url.searchParams.get('versionId');
+        const headers: Record<string, string> = {};
+        const bypassGovernance = await canBypassGovernance(request, authorize, bucketName, key);
+
+        if (versionId) {
+            // Deleting the current version makes another one current, so it takes the key's lock
+            const outcome = (await withKeyWriteLock(bucket.id, key, async () => {
+                const version = await findObjectVersion(bucket.id, key, versionId);
+                if (!version) return 'not-found' as const;
+                const retentionError = checkVersionDeletable(version, bypassGovernance);
+                if (retentionError) return retentionError;
+                await deleteSpecificVersion(bucket, version);
+                if (version.isDeleteMarker) headers['x-amz-delete-marker'] = 'true';
+                return 'deleted' as const;
+            }))!;
+            // Deleting a version that does not exist succeeds, but nothing was removed to report
+            if (outcome === 'not-found') return new Response(null, { status: 204 });
+            if (outcome !== 'deleted') return s3ErrorResponse(outcome);
+            headers['x-amz-version-id'] = versionId;
+            await notifyBucketEvent(bucket, 's3:ObjectRemoved:Delete', { key, versionId }, request, accessKeyId);
+        } else {
+            // Retention is judged under the lock, against the version that is about to be replaced
+            const result = (await withKeyWriteLock(bucket.id, key, async () => {
+                const lockError = await checkOverwriteAllowed(bucket, key, bypassGovernance);
+                return lockError ?? deleteCurrentVersion(bucket, key);
+            }))!;
+            if ('code' in result) return s3ErrorResponse(result);
+            if (result.deleteMarker) headers['x-amz-delete-marker'] = 'true';
+            if (result.versionId) headers['x-amz-version-id'] = result.versionId;
+            await notifyBucketEvent(bucket, result.deleteMarker ? 's3:ObjectRemoved:DeleteMarkerCreated' : 's3:ObjectRemoved:Delete', {
+                key, versionId: result.versionId,
+            }, request, accessKeyId);
         }
 
-        return new Response(null, { status: 204 });
+        return new Response(null, { status: 204, headers });
     })
     // DeleteObjects (batch) — POST /:bucket?delete
-    .post('/:bucket', async ({ params, request, query, s3Error, ownerId, bodyBuffer }) => {
+    // POST Object (browser form upload) — POST /:bucket with multipart/form-data
+    .post('/:bucket', async ({ params, request, query, s3Error, ownerId, accessKeyId, bodyBuffer, postForm, authorize }) => {
         if (s3Error) return s3ErrorResponse(s3Error);
 
+        if (postForm) return handlePostObject(request, params.bucket, postForm, accessKeyId, authorize);
+
         const url = new URL(request.url);
         if (!url.searchParams.has('delete')) {
             return s3ErrorResponse(S3Errors.MethodNotAllowed('POST'));
@@ -324,7 +412,7 @@ export const objectRoutes = new Elysia({ prefix: '' })
         const bodyText = bodyBuffer.toString('utf-8');
         const parsed = xml.parse(bodyText);
 
-        let objectsToDelete: { Key: string }[] = [];
+        let objectsToDelete: { Key: string; VersionId?: string }[] = [];
         const deleteObj = parsed?.Delete?.Object;
         if (Array.isArray(deleteObj)) {
             objectsToDelete = deleteObj;
@@ -332,21 +420,53 @@ export const objectRoutes = new Elysia({ prefix: '' })
             objectsToDelete = [deleteObj];
         }
 
-        const deleted: { key: string }[] = [];
+        const bypassHeader = request.headers.get('x-amz-bypass-governance-retention')?.toLowerCase() === 'true';
+        const deleted: { key: string; versionId?: string; deleteMarker?: boolean; deleteMarkerVersionId?: string }[] = [];
         const errors: { key: string; code: string; message: string }[] = [];
 
         for (const item of objectsToDelete) {
-            const objKey = item.Key;
+            const objKey = String(item.Key);
+            const action = item.VersionId ? 's3:DeleteObjectVersion' : 's3:DeleteObject';
+            if (!(await authorize(action, bucketName, objKey))) {
+                errors.push({ key: objKey, code: 'AccessDenied', message: 'Access Denied' });
+                continue;
+            }
+            const bypassGovernance = bypassHeader && await authorize('s3:BypassGovernanceRetention', bucketName, objKey);
             try {
-                const [obj] = await db.select().from(objects)
-                    .where(and(eq(objects.bucketId, bucket.id), eq(objects.key, objKey)))
-                    .limit(1);
-
-                if (obj) {
-                    await storage.deleteObject(bucketName, objKey);
-                    await db.delete(objects).where(eq(objects.id, obj.id));
+                if (item.VersionId) {
+                    const versionId = String(item.VersionId);
+                    const outcome = (await withKeyWriteLock(bucket.id, objKey, async () => {
+                        const version = await findObjectVersion(bucket.id, objKey, versionId);
+                        const lockError = version && checkVersionDeletable(version, bypassGovernance);
+                        if (lockError) return lockError;
+                        if (version) await deleteSpecificVersion(bucket, version);
+                        return { version };
+                    }))!;
+                    if ('code' in outcome) {
+                        errors.push({ key: objKey, code: outcome.code, message: outcome.message });
+                        continue;
+                    }
+                    const { version } = outcome;
+                    deleted.push(version?.isDeleteMarker
+                        ? { key: objKey, versionId, deleteMarker: true, deleteMarkerVersionId: versionId }
+                        : { key: objKey, versionId });
+                    await notifyBucketEvent(bucket, 's3:ObjectRemoved:Delete', { key: objKey, versionId }, request, accessKeyId);
+                } else {
+                    const result = (await withKeyWriteLock(bucket.id, objKey, async () => {
+                        const lockError = await checkOverwriteAllowed(bucket, objKey, bypassGovernance);
+                        return lockError ?? deleteCurrentVersion(bucket, objKey);
+                    }))!;
+                    if ('code' in result) {
+                        errors.push({ key: objKey, code: result.code, message: result.message });
+                        continue;
+                    }
+                    deleted.push(result.deleteMarker
+                        ? { key: objKey, deleteMarker: true, deleteMarkerVersionId: result.versionId }
+                        : { key: objKey });
+                    await notifyBucketEvent(bucket, result.deleteMarker ? 's3:ObjectRemoved:DeleteMarkerCreated' : 's3:ObjectRemoved:Delete', {
+                        key: objKey, versionId: result.versionId,
+                    }, request, accessKeyId);
                 }
-                deleted.push({ key: objKey });
             } catch (err: any) {
                 errors.push({ key: objKey, code: 'InternalError', message: err.message });
             }
@@ -359,53 +479,390 @@ export const objectRoutes = new Elysia({ prefix: '' })
         });
     });
 
-async function handleCopyObject(
-    dstBucket: string,
-    dstKey: string,
-    copySource: string,
-    ownerId: number,
-): Promise<Response> {
-    const cleanSource = copySource.startsWith('/') ? copySource.slice(1) : copySource;
-    const slashIndex = cleanSource.indexOf('/');
-    if (slashIndex < 0) {
-        return s3ErrorResponse(S3Errors.InvalidArgument('Invalid x-amz-copy-source'));
+/**
+ * PutObject's write path, shared with POST Object uploads (whose form fields stand in for
+ * the request headers): validate, store the new current version and notify `eventName`.
+ * Returns the ETag, version id and response headers of the stored object.
+ */
+async function putObject(
+    request: Request,
+    bucket: BucketRecord,
+    key: string,
+    headers: Headers,
+    body: Buffer,
+    accessKeyId: string,
+    eventName: string,
+    trailers: Record<string, string> = {},
+): Promise<{ etag: string; versionId: string; headers: Record<string, string> } | S3Error> {
+    const taggingHeader = headers.get('x-amz-tagging');
+    const tags = taggingHeader ? parseTaggingHeader(taggingHeader) : [];
+    const tagError = validateTags(tags);
+    if (tagError) return S3Errors.InvalidTag(tagError);
+
+    const lock = resolveObjectLockHeaders(bucket, headers);
+    if ('code' in lock) return lock;
+    const conditions = parseWriteConditions(headers);
+    if (conditions && 'code' in conditions) return conditions;
+
+    const websiteRedirectLocation = headers.get('x-amz-website-redirect-location');
+    if (websiteRedirectLocation && !isValidRedirectLocation(websiteRedirectLocation)) {
+        return S3Errors.InvalidArgument('The website redirect location must have a prefix of \'http://\' or \'https://\' or \'/\'.');
+    }
+
+    const customerKey = parseCustomerKey(headers);
+    if (customerKey && 'code' in customerKey) return customerKey;
+    const sse = resolveServerSideEncryption(bucket, headers, customerKey);
+    if ('code' in sse) return sse;
+    const encryptionKey = customerKey?.key ?? sse.dataKey;
+
+    // Every digest is checked before anything is written or the current version superseded
+    const etag = computeETag(body);
+    const md5Error = verifyContentMd5(headers, etag);
+    if (md5Error) return md5Error;
+    const checksum = parseRequestChecksum(headers, trailers);
+    if (checksum && 'code' in checksum) return checksum;
+    if (checksum) {
+        const digestError = verifyChecksum(body, checksum);
+        if (digestError) return digestError;
+    }
+
+    // Quota enforcement
+    if (bucket.maxSize > 0) {
+        const [usage] = await db.select({ totalSize: sum(objects.size) })
+            .from(objects).where(eq(objects.bucketId, bucket.id));
+        const currentSize = Number(usage?.totalSize || 0);
+        if (currentSize + body.length > bucket.maxSize) {
+            return S3Errors.EntityTooLarge();
+        }
+    }
+
+    const contentType = headers.get('content-type') || 'application/octet-stream';
+
+    const metadata: Record<string, string> = {};
+    headers.forEach((value, headerKey) => {
+        if (headerKey.toLowerCase().startsWith('x-amz-meta-')) {
+            metadata[headerKey.toLowerCase().slice(11)] = value;
+        }
+    });
+
+    // Preconditions are judged against the current version while no other write to the key can run
+    const written = await withKeyWriteLock(bucket.id, key, async () => {
+        const overwriteError = await checkOverwriteAllowed(bucket, key);
+        if (overwriteError) return overwriteError;
+        if (conditions) {
+            const conditionError = checkWriteConditions(conditions, await findObjectVersion(bucket.id, key), key);
+            if (conditionError) return conditionError;
+        }
+
+        const versionId = await supersedeCurrentVersion(bucket, key);
+        const { size: storedSize, storagePath } = await storage.writeObject(
+            bucket.name, key, encryptionKey ? encryptObjectData(body, encryptionKey) : body,
+        );
+        const size = encryptionKey ? body.length : storedSize;
+
+        const [inserted] = await db.insert(objects).values({
+            bucketId: bucket.id,
+            key,
+            size,
+            etag,
+            contentType,
+            storagePath,
+            metadata: Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
+            versionId,
+            websiteRedirectLocation,
+            ...lock,
+            ...sseCustomerColumns(customerKey),
+            ...sse.columns,
+            checksumAlgorithm: checksum?.algorithm ?? null,
+            checksumValue: checksum?.value ?? null,
+        }).$returningId();
+        await setObjectTags(inserted!.id, tags);
+        return { versionId, size };
+    }, !conditions);
+    if (!written) return S3Errors.ConditionalRequestConflict();
+    if ('code' in written) return written;
+    const { versionId, size } = written;
+
+    await notifyBucketEvent(bucket, eventName, {
+        key, size, etag, versionId: bucket.versioning ? versionId : undefined,
+    }, request, accessKeyId);
+
+    const responseHeaders: Record<string, string> = { ETag: `"${etag}"` };
+    if (bucket.versioning) responseHeaders['x-amz-version-id'] = versionId;
+    if (sse.columns.serverSideEncryption) responseHeaders['x-amz-server-side-encryption'] = sse.columns.serverSideEncryption;
+    if (customerKey) Object.assign(responseHeaders, customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5));
+    if (checksum) responseHeaders[checksumHeaderName(checksum.algorithm)] = checksum.value;
+
+    return { etag, versionId, headers: responseHeaders };
+}
+
+/** `x-amz-*` form fields that authenticate a POST Object upload rather than describe the object */
+const POST_CREDENTIAL_FIELDS = ['x-amz-algorithm', 'x-amz-credential', 'x-amz-date', 'x-amz-signature', 'x-amz-security-token'];
+
+/**
+ * POST Object — a browser form upload. The policy is checked against the form before the
+ * caller is authorized for the key it names; the object fields then stand in for PutObject's
+ * headers, and `success_action_redirect` / `success_action_status` pick the response.
+ */
+async function handlePostObject(request: Request, bucketName: string, form: PostForm, accessKeyId: string, authorize: Authorizer): Promise<Response> {
+    const [bucket] = await db.select().from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+
+    if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+    const key = resolvePostKey(form);
+    if (!key) return s3ErrorResponse(S3Errors.InvalidArgument('Bucket POST must contain a field named \'key\'.'));
+
+    // Signed forms always carry a policy; an anonymous one may still limit itself with one
+    if (form.fields['policy']) {
+        const policy = parsePostPolicy(form.fields['policy']);
+        if ('code' in policy) return s3ErrorResponse(policy);
+        const policyError = checkPostPolicy(policy, form, bucketName, key);
+        if (policyError) return s3ErrorResponse(policyError);
     }
+
+    if (!(await authorize('s3:PutObject', bucketName, key))) return s3ErrorResponse(S3Errors.AccessDenied());
+
+    const headers = new Headers();
+    try {
+        for (const [field, value] of Object.entries(form.fields)) {
+            if (field === 'content-type' || (field.startsWith('x-amz-') && !POST_CREDENTIAL_FIELDS.includes(field))) {
+                headers.set(field, value);
+            }
+        }
+    } catch {
+        return s3ErrorResponse(S3Errors.InvalidArgument('Form fields must be valid header values.'));
+    }
+    // Without a Content-Type field the file part's own type is used
+    if (!headers.has('content-type') && form.file.type) headers.set('content-type', form.file.type);
+    if (form.fields['tagging']) {
+        const tags = parseTaggingXml(form.fields['tagging']);
+        if (!tags) return s3ErrorResponse(S3Errors.MalformedXML());
+        headers.set('x-amz-tagging', new URLSearchParams(tags.map((tag): [string, string] => [tag.key, tag.value])).toString());
+    }
+
+    const stored = await putObject(request, bucket, key, headers, form.file.data, accessKeyId, 's3:ObjectCreated:Post');
+    if ('code' in stored) return s3ErrorResponse(stored);
+
+    const location = `/${bucketName}/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+    // An unparseable redirect is ignored, falling back to success_action_status
+    const redirect = URL.parse(form.fields['success_action_redirect'] ?? form.fields['redirect'] ?? '');
+    if (redirect) {
+        redirect.searchParams.set('bucket', bucketName);
+        redirect.searchParams.set('key', key);
+        redirect.searchParams.set('etag', `"${stored.etag}"`);
+        return new Response(null, { status: 303, headers: { ...stored.headers, Location: redirect.toString() } });
+    }
+
+    const status = form.fields['success_action_status'];
+    if (status === '201') {
+        return new Response(xml.postResponse(location, bucketName, key, stored.etag), {
+            status: 201,
+            headers: { ...stored.headers, Location: location, 'Content-Type': 'application/xml' },
+        });
+    }
+    return new Response(null, { status: status === '200' ? 200 : 204, headers: { ...stored.headers, Location: location } });
+}
+
+/**
+ * Write a part to disk and record it, replacing an earlier upload of the same part number.
+ * SSE-C parts are encrypted with the caller's key, SSE-S3 parts with the upload's data key;
+ * the recorded size is always the plaintext size.
+ */
+async function storeMultipartPart(
+    upload: UploadRecord,
+    partNumber: number,
+    data: Buffer,
+    etag: string,
+    checksum: Checksum | null,
+    customerKey: CustomerKey | null,
+): Promise<void> {
+    const encryptionKey = customerKey?.key ?? (upload.encryptedDataKey ? unwrapDataKey(upload) : undefined);
+    const partPath = await storage.writeMultipartPart(upload.uploadId, partNumber, encryptionKey ? encryptObjectData(data, encryptionKey) : data);
+
+    const [existingPart] = await db.select().from(multipartParts)
+        .where(and(eq(multipartParts.uploadId, upload.uploadId), eq(multipartParts.partNumber, partNumber)))
+        .limit(1);
+
+    const columns = {
+        size: data.length,
+        etag,
+        storagePath: partPath,
+        checksumAlgorithm: checksum?.algorithm ?? null,
+        checksumValue: checksum?.value ?? null,
+    };
+    if (existingPart) {
+        await db.update(multipartParts).set(columns).where(eq(multipartParts.id, existingPart.id));
+    } else {
+        await db.insert(multipartParts).values({ uploadId: upload.uploadId, partNumber, ...columns });
+    }
+}
+
+/** An object version named by `x-amz-copy-source`, checked and ready to be read */
+interface CopySource {
+    bucket: BucketRecord;
+    object: ObjectRecord;
+    /** Decrypts the source: its SSE-C key from the copy-source headers, or its SSE-S3 data key */
+    encryptionKey: Buffer | undefined;
+}
+
+/**
+ * Resolve `x-amz-copy-source` for CopyObject and UploadPartCopy. The caller must be allowed to
+ * read the source, the `x-amz-copy-source-if-*` conditions must hold, and an SSE-C source
+ * must come with its key in the `x-amz-copy-source-server-side-encryption-customer-*` headers.
+ */
+async function resolveCopySource(request: Request, copySource: string, authorize: Authorizer): Promise<CopySource | S3Error> {
+    const [sourcePath, sourceQuery] = copySource.split('?', 2) as [string, string | undefined];
+    const cleanSource = sourcePath.startsWith('/') ? sourcePath.slice(1) : sourcePath;
+    const slashIndex = cleanSource.indexOf('/');
+    if (slashIndex < 0) return S3Errors.InvalidArgument('Invalid x-amz-copy-source');
     const srcBucketName = cleanSource.slice(0, slashIndex);
     const srcKey = decodeURIComponent(cleanSource.slice(slashIndex + 1));
+    const srcVersionId = new URLSearchParams(sourceQuery || '').get('versionId');
+
+    // The destination was authorized by the middleware; the source needs read access too
+    if (!(await authorize(srcVersionId ? 's3:GetObjectVersion' : 's3:GetObject', srcBucketName, srcKey))) {
+        return S3Errors.AccessDenied();
+    }
 
     const [srcBucket] = await db.select().from(buckets)
         .where(eq(buckets.name, srcBucketName))
         .limit(1);
-    if (!srcBucket) return s3ErrorResponse(S3Errors.NoSuchBucket(srcBucketName));
+    if (!srcBucket) return S3Errors.NoSuchBucket(srcBucketName);
 
-    const [srcObj] = await db.select().from(objects)
-        .where(and(eq(objects.bucketId, srcBucket.id), eq(objects.key, srcKey)))
-        .limit(1);
-    if (!srcObj) return s3ErrorResponse(S3Errors.NoSuchKey(srcKey));
+    const srcObj = await findObjectVersion(srcBucket.id, srcKey, srcVersionId);
+    if (!srcObj) return srcVersionId ? S3Errors.NoSuchVersion(srcVersionId) : S3Errors.NoSuchKey(srcKey);
+    if (srcObj.isDeleteMarker) {
+        return srcVersionId ? S3Errors.InvalidArgument('The source of a copy request may not specifically refer to a delete marker by version id.') : S3Errors.NoSuchKey(srcKey);
+    }
+    const preconditionError = checkCopySourceConditions(request.headers, srcObj);
+    if (preconditionError) return preconditionError;
+
+    const sourceKey = parseCustomerKey(request.headers, true);
+    if (sourceKey && 'code' in sourceKey) return sourceKey;
+    const sourceKeyError = checkCustomerKey(srcObj.sseCustomerKeyHash, sourceKey);
+    if (sourceKeyError) return sourceKeyError;
+
+    return { bucket: srcBucket, object: srcObj, encryptionKey: objectEncryptionKey(srcObj, sourceKey) };
+}
+
+function readCopySource(source: CopySource, range?: { start: number; end: number }): Promise<Buffer> {
+    const { bucket, object } = source;
+    return storage.readObjectAsBuffer(bucket.name, object.key, object.isLatest ? undefined : object.versionId, source.encryptionKey, range);
+}
+
+/** `x-amz-copy-source-range: bytes=first-last`, both offsets inclusive and inside the source */
+function parseCopySourceRange(header: string, size: number): { start: number; end: number } | S3Error {
+    const match = header.match(/^bytes=(\d+)-(\d+)$/);
+    if (!match) {
+        return S3Errors.InvalidArgument('The x-amz-copy-source-range value must be of the form bytes=first-last where first and last are the zero-based offsets of the first and last bytes to copy');
+    }
+    const start = parseInt(match[1]!);
+    const end = parseInt(match[2]!);
+    if (start > end || end >= size) return S3Errors.InvalidArgument(`Range specified is not valid for source object of size: ${size}`);
+    return { start, end };
+}
+
+/**
+ * UploadPartCopy: a part filled server-side from an existing object, or from the byte range in
+ * `x-amz-copy-source-range`. The part is encrypted like any other part of its upload.
+ */
+async function handleUploadPartCopy(
+    request: Request,
+    upload: UploadRecord,
+    partNumber: number,
+    copySource: string,
+    customerKey: CustomerKey | null,
+    authorize: Authorizer,
+): Promise<Response> {
+    const source = await resolveCopySource(request, copySource, authorize);
+    if ('code' in source) return s3ErrorResponse(source);
+
+    const rangeHeader = request.headers.get('x-amz-copy-source-range');
+    const range = rangeHeader ? parseCopySourceRange(rangeHeader, source.object.size) : null;
+    if (range && 'code' in range) return s3ErrorResponse(range);
+
+    const data = await readCopySource(source, range ?? undefined);
+    const etag = computeETag(data);
+    const algorithm = upload.checksumAlgorithm as ChecksumAlgorithm | null;
+    const checksum: Checksum | null = algorithm ? { algorithm, value: computeChecksum(algorithm, data) } : null;
+
+    await storeMultipartPart(upload, partNumber, data, etag, checksum, customerKey);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/xml' };
+    if (source.bucket.versioning) headers['x-amz-copy-source-version-id'] = source.object.versionId;
+    if (upload.serverSideEncryption) headers['x-amz-server-side-encryption'] = upload.serverSideEncryption;
+    if (customerKey) Object.assign(headers, customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5));
+
+    const body = xml.copyPartResponse(etag, new Date(), checksum);
+    return new Response(body, { status: 200, headers });
+}
+
+async function handleCopyObject(
+    request: Request,
+    dstBucket: string,
+    dstKey: string,
+    copySource: string,
+    ownerId: number,
+    accessKeyId: string,
+    authorize: Authorizer,
+): Promise<Response> {
+    const source = await resolveCopySource(request, copySource, authorize);
+    if ('code' in source) return s3ErrorResponse(source);
+    const srcObj = source.object;
 
     const [dstBucketRecord] = await db.select().from(buckets)
         .where(eq(buckets.name, dstBucket))
         .limit(1);
     if (!dstBucketRecord) return s3ErrorResponse(S3Errors.NoSuchBucket(dstBucket));
 
-    await storage.copyObject(srcBucketName, srcKey, dstBucket, dstKey);
+    // x-amz-tagging-directive: COPY (default) keeps the source tags, REPLACE takes x-amz-tagging
+    const taggingDirective = request.headers.get('x-amz-tagging-directive') || 'COPY';
+    let tags: Tag[];
+    if (taggingDirective === 'COPY') {
+        tags = await getObjectTags(srcObj.id);
+    } else if (taggingDirective === 'REPLACE') {
+        tags = parseTaggingHeader(request.headers.get('x-amz-tagging') || '');
+        const tagError = validateTags(tags);
+        if (tagError) return s3ErrorResponse(S3Errors.InvalidTag(tagError));
+    } else {
+        return s3ErrorResponse(S3Errors.InvalidArgument('Unknown tagging directive.'));
+    }
 
-    const storagePath = `./storage/${dstBucket}/${dstKey}`;
+    // Lock state is never copied from the source — it comes from the request or the destination's default
+    const lock = resolveObjectLockHeaders(dstBucketRecord, request.headers);
+    if ('code' in lock) return s3ErrorResponse(lock);
+    const websiteRedirectLocation = request.headers.get('x-amz-website-redirect-location') ?? srcObj.websiteRedirectLocation;
+    if (websiteRedirectLocation && !isValidRedirectLocation(websiteRedirectLocation)) {
+        return s3ErrorResponse(S3Errors.InvalidArgument('The website redirect location must have a prefix of \'http://\' or \'https://\' or \'/\'.'));
+    }
 
-    const [existing] = await db.select().from(objects)
-        .where(and(eq(objects.bucketId, dstBucketRecord.id), eq(objects.key, dstKey)))
-        .limit(1);
+    // The copy is encrypted with the request's own key, whatever protected the source
+    const customerKey = parseCustomerKey(request.headers);
+    if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+    const sse = resolveServerSideEncryption(dstBucketRecord, request.headers, customerKey);
+    if ('code' in sse) return s3ErrorResponse(sse);
+    const encryptionKey = customerKey?.key ?? sse.dataKey;
+
+    const checksumAlgorithmHeader = request.headers.get('x-amz-checksum-algorithm');
+    const checksumAlgorithm = checksumAlgorithmHeader ? parseChecksumAlgorithm(checksumAlgorithmHeader) : null;
+    if (checksumAlgorithmHeader && !checksumAlgorithm) {
+        return s3ErrorResponse(S3Errors.InvalidRequest('Value for x-amz-checksum-algorithm header is invalid.'));
+    }
 
-    if (existing) {
-        await db.update(objects).set({
-            size: srcObj.size,
-            etag: srcObj.etag,
-            contentType: srcObj.contentType,
-            storagePath,
-            metadata: srcObj.metadata,
-        }).where(eq(objects.id, existing.id));
-    } else {
-        await db.insert(objects).values({
+    // Read the source before superseding the destination — they may be the same key
+    const data = await readCopySource(source);
+    const checksum = copyChecksum(storedChecksum(srcObj), checksumAlgorithm, data);
+    const copied = (await withKeyWriteLock(dstBucketRecord.id, dstKey, async () => {
+        const overwriteError = await checkOverwriteAllowed(dstBucketRecord, dstKey);
+        if (overwriteError) return overwriteError;
+
+        const versionId = await supersedeCurrentVersion(dstBucketRecord, dstKey);
+        const { storagePath } = await storage.writeObject(dstBucket, dstKey, encryptionKey ? encryptObjectData(data, encryptionKey) : data);
+
+        const [inserted] = await db.insert(objects).values({
             bucketId: dstBucketRecord.id,
             key: dstKey,
             size: srcObj.size,
@@ -413,12 +870,323 @@ async function handleCopyObject(
             contentType: srcObj.contentType,
             storagePath,
             metadata: srcObj.metadata,
-        });
+            versionId,
+            websiteRedirectLocation,
+            ...lock,
+            ...sseCustomerColumns(customerKey),
+            ...sse.columns,
+            checksumAlgorithm: checksum?.algorithm ?? null,
+            checksumValue: checksum?.value ?? null,
+        }).$returningId();
+        await setObjectTags(inserted!.id, tags);
+        return { versionId };
+    }))!;
+    if ('code' in copied) return s3ErrorResponse(copied);
+    const { versionId } = copied;
+    await notifyBucketEvent(dstBucketRecord, 's3:ObjectCreated:Copy', {
+        key: dstKey, size: srcObj.size, etag: srcObj.etag, versionId: dstBucketRecord.versioning ? versionId : undefined,
+    }, request, accessKeyId);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/xml' };
+    if (source.bucket.versioning) headers['x-amz-copy-source-version-id'] = srcObj.versionId;
+    if (dstBucketRecord.versioning) headers['x-amz-version-id'] = versionId;
+    if (sse.columns.serverSideEncryption) headers['x-amz-server-side-encryption'] = sse.columns.serverSideEncryption;
+    if (customerKey) Object.assign(headers, customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5));
+
+    const body = xml.copyObjectResponse(srcObj.etag, new Date(), checksum);
+    return new Response(body, { status: 200, headers });
+}
+
+/** `x-amz-website-redirect-location` must be a path on the bucket's site or an absolute http(s) URL */
+function isValidRedirectLocation(location: string): boolean {
+    return location.startsWith('/') || location.startsWith('http://') || location.startsWith('https://');
+}
+
+/** `x-amz-bypass-governance-retention` only counts when the caller holds s3:BypassGovernanceRetention */
+async function canBypassGovernance(request: Request, authorize: Authorizer, bucketName: string, key: string): Promise<boolean> {
+    if (request.headers.get('x-amz-bypass-governance-retention')?.toLowerCase() !== 'true') return false;
+    return authorize('s3:BypassGovernanceRetention', bucketName, key);
+}
+
+/**
+ * GetObjectRetention, PutObjectRetention, GetObjectLegalHold or PutObjectLegalHold —
+ * `?retention` / `?legal-hold` on an object version in an Object Lock bucket.
+ */
+async function handleObjectLock(request: Request, bucketName: string, key: string, authorize: Authorizer, bodyBuffer?: Buffer): Promise<Response> {
+    const [bucket] = await db.select().from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+    if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+    if (!getBucketObjectLock(bucket)) return s3ErrorResponse(S3Errors.InvalidRequest('Bucket is missing Object Lock Configuration'));
+
+    const url = new URL(request.url);
+    const versionId = url.searchParams.get('versionId');
+    const obj = await findObjectVersion(bucket.id, key, versionId);
+    if (!obj) return s3ErrorResponse(versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key));
+    if (obj.isDeleteMarker) return deleteMarkerResponse(obj.versionId, key, !!versionId, request.method);
+
+    const isRetention = url.searchParams.has('retention');
+
+    if (request.method === 'GET') {
+        if (isRetention && (!obj.retentionMode || !obj.retainUntilDate)) {
+            return s3ErrorResponse(S3Errors.NoSuchObjectLockConfiguration());
+        }
+        const body = isRetention
+            ? xml.retentionResponse(obj.retentionMode as RetentionMode, obj.retainUntilDate!)
+            : xml.legalHoldResponse(obj.legalHold);
+        return new Response(body, { status: 200, headers: { 'Content-Type': 'application/xml' } });
     }
 
-    const body = xml.copyObjectResponse(srcObj.etag, new Date());
-    return new Response(body, {
+    const bodyText = (bodyBuffer || Buffer.alloc(0)).toString('utf-8');
+    const retention = isRetention ? parseRetention(bodyText) : null;
+    const legalHold = isRetention ? null : parseLegalHold(bodyText);
+    if (isRetention ? !retention : legalHold === null) return s3ErrorResponse(S3Errors.MalformedXML());
+    const bypassGovernance = isRetention && await canBypassGovernance(request, authorize, bucketName, key);
+
+    // Protection changes share the key's write lock with the writes they guard against,
+    // so the version is judged as it stands when the change lands
+    const error = await withKeyWriteLock(bucket.id, key, async () => {
+        const locked = await findObjectVersion(bucket.id, key, versionId);
+        if (!locked || locked.isDeleteMarker) return versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key);
+
+        if (retention) {
+            const lockError = checkRetentionChange(locked, retention, bypassGovernance);
+            if (lockError) return lockError;
+            await db.update(objects).set({
+                retentionMode: retention.mode,
+                retainUntilDate: retention.retainUntilDate,
+                lastModified: locked.lastModified,
+            }).where(eq(objects.id, locked.id));
+        } else {
+            await db.update(objects).set({ legalHold: legalHold!, lastModified: locked.lastModified }).where(eq(objects.id, locked.id));
+        }
+        return null;
+    });
+    if (error) return s3ErrorResponse(error);
+
+    return new Response(null, { status: 200 });
+}
+
+/**
+ * GetObjectTagging, PutObjectTagging or DeleteObjectTagging — `?tagging` on an object.
+ * Tags belong to a single version: the current one, or the one named by `versionId`.
+ */
+async function handleObjectTagging(request: Request, bucketName: string, key: string, bodyBuffer?: Buffer): Promise<Response> {
+    const [bucket] = await db.select().from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+    if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+    const versionId = new URL(request.url).searchParams.get('versionId');
+    const obj = await findObjectVersion(bucket.id, key, versionId);
+    if (!obj) return s3ErrorResponse(versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key));
+    if (obj.isDeleteMarker) return deleteMarkerResponse(obj.versionId, key, !!versionId, request.method);
+
+    const headers: Record<string, string> = {};
+    if (bucket.versioning) headers['x-amz-version-id'] = obj.versionId;
+
+    if (request.method === 'GET') {
+        const body = xml.taggingResponse(await getObjectTags(obj.id));
+        return new Response(body, { status: 200, headers: { ...headers, 'Content-Type': 'application/xml' } });
+    }
+
+    if (request.method === 'DELETE') {
+        await setObjectTags(obj.id, []);
+        return new Response(null, { status: 204, headers });
+    }
+
+    const tags = parseTaggingXml((bodyBuffer || Buffer.alloc(0)).toString('utf-8'));
+    if (!tags) return s3ErrorResponse(S3Errors.MalformedXML());
+    const tagError = validateTags(tags);
+    if (tagError) return s3ErrorResponse(S3Errors.InvalidTag(tagError));
+
+    await setObjectTags(obj.id, tags);
+    return new Response(null, { status: 200, headers });
+}
+
+/**
+ * SelectObjectContent: run an S3 Select query over a CSV or JSON object (optionally GZIP'd)
+ * and stream the matching records back in event-stream framing.
+ */
+export async function handleSelectObjectContent(request: Request, bucket: BucketRecord, key: string, bodyBuffer: Buffer): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.searchParams.get('select-type') !== '2') {
+        return s3ErrorResponse(S3Errors.InvalidArgument('select-type must be 2'));
+    }
+
+    let parsed: any;
+    try {
+        parsed = xml.parseVerbatim(bodyBuffer.toString('utf-8'));
+    } catch {
+        return s3ErrorResponse(S3Errors.MalformedXML());
+    }
+    const selectRequest = parseSelectRequest(parsed);
+    if ('code' in selectRequest) return s3ErrorResponse(selectRequest);
+    const query = parseQuery(selectRequest.expression);
+    if ('code' in query) return s3ErrorResponse(query);
+    if (selectRequest.input.format === 'CSV' && query.from.length > 0) {
+        return s3ErrorResponse(S3Errors.UnsupportedSqlStructure('CSV records have no nested paths to select FROM'));
+    }
+
+    const versionId = url.searchParams.get('versionId');
+    const obj = await findObjectVersion(bucket.id, key, versionId);
+    if (!obj) return s3ErrorResponse(versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key));
+    if (obj.isDeleteMarker) return deleteMarkerResponse(obj.versionId, key, !!versionId);
+
+    const customerKey = parseCustomerKey(request.headers);
+    if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+    const keyError = checkCustomerKey(obj.sseCustomerKeyHash, customerKey);
+    if (keyError) return s3ErrorResponse(keyError);
+
+    const source = await storage.openObjectStream(
+        bucket.name, key, obj.isLatest ? undefined : obj.versionId, objectEncryptionKey(obj, customerKey),
+    );
+    return new Response(selectEventStream(source, selectRequest, query), {
         status: 200,
-        headers: { 'Content-Type': 'application/xml' },
+        headers: { 'Content-Type': 'application/octet-stream' },
     });
 }
+
+const OBJECT_ATTRIBUTES = ['ETag', 'Checksum', 'ObjectParts', 'StorageClass', 'ObjectSize'] as const;
+
+/**
+ * GetObjectAttributes: only the attributes named in `x-amz-object-attributes`. ObjectParts is
+ * the part layout of a multipart object, paged with `x-amz-max-parts` / `x-amz-part-number-marker`.
+ */
+async function handleObjectAttributes(request: Request, bucketName: string, key: string): Promise<Response> {
+    const requested = new Set<typeof OBJECT_ATTRIBUTES[number]>();
+    for (const name of (request.headers.get('x-amz-object-attributes') || '').split(',').map((a) => a.trim()).filter(Boolean)) {
+        const attribute = OBJECT_ATTRIBUTES.find((a) => a.toLowerCase() === name.toLowerCase());
+        if (!attribute) return s3ErrorResponse(S3Errors.InvalidArgument('Invalid attribute name specified.'));
+        requested.add(attribute);
+    }
+    if (requested.size === 0) {
+        return s3ErrorResponse(S3Errors.InvalidArgument('The x-amz-object-attributes header specifying the attributes to be retrieved is either missing or empty'));
+    }
+
+    const maxParts = Math.min(parseInt(request.headers.get('x-amz-max-parts') || '1000'), 1000);
+    const partNumberMarker = parseInt(request.headers.get('x-amz-part-number-marker') || '0');
+    if (!(maxParts >= 0) || !(partNumberMarker >= 0)) {
+        return s3ErrorResponse(S3Errors.InvalidArgument('x-amz-max-parts and x-amz-part-number-marker must be non-negative integers'));
+    }
+
+    const [bucket] = await db.select().from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+    if (!bucket) return s3ErrorResponse(S3Errors.NoSuchBucket(bucketName));
+
+    const versionId = new URL(request.url).searchParams.get('versionId');
+    const obj = await findObjectVersion(bucket.id, key, versionId);
+    if (!obj) return s3ErrorResponse(versionId ? S3Errors.NoSuchVersion(versionId) : S3Errors.NoSuchKey(key));
+    if (obj.isDeleteMarker) return deleteMarkerResponse(obj.versionId, key, !!versionId);
+
+    const customerKey = parseCustomerKey(request.headers);
+    if (customerKey && 'code' in customerKey) return s3ErrorResponse(customerKey);
+    const keyError = checkCustomerKey(obj.sseCustomerKeyHash, customerKey);
+    if (keyError) return s3ErrorResponse(keyError);
+
+    const attributes: Parameters<typeof xml.objectAttributesResponse>[0] = {};
+    if (requested.has('ETag')) attributes.etag = obj.etag;
+    if (requested.has('Checksum')) attributes.checksum = storedChecksum(obj);
+    if (requested.has('StorageClass')) attributes.storageClass = 'STANDARD';
+    if (requested.has('ObjectSize')) attributes.objectSize = obj.size;
+
+    // Objects not assembled from parts have no ObjectParts element at all
+    if (requested.has('ObjectParts')) {
+        const [total] = await db.select({ count: count() }).from(objectParts)
+            .where(eq(objectParts.objectId, obj.id));
+        if (total && total.count > 0) {
+            const rows = await db.select().from(objectParts)
+                .where(and(eq(objectParts.objectId, obj.id), gt(objectParts.partNumber, partNumberMarker)))
+                .orderBy(objectParts.partNumber)
+                .limit(maxParts + 1);
+            const isTruncated = rows.length > maxParts;
+            const parts = rows.slice(0, maxParts);
+            attributes.objectParts = {
+                totalPartsCount: total.count,
+                partNumberMarker,
+                nextPartNumberMarker: isTruncated ? parts[parts.length - 1]?.partNumber : undefined,
+                maxParts,
+                isTruncated,
+                parts: parts.map((p) => ({ partNumber: p.partNumber, size: p.size, checksum: storedChecksum(p) })),
+            };
+        }
+    }
+
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/xml',
+        'Last-Modified': obj.lastModified.toUTCString(),
+    };
+    if (bucket.versioning) headers['x-amz-version-id'] = obj.versionId;
+    if (customerKey) Object.assign(headers, customerKeyHeaders(customerKey.algorithm, customerKey.keyMd5));
+
+    return new Response(xml.objectAttributesResponse(attributes), { status: 200, headers });
+}
+
+/** Object columns recording the SSE-C key a version was written with */
+function sseCustomerColumns(customerKey: CustomerKey | null): { sseCustomerAlgorithm: string | null; sseCustomerKeyHash: string | null } {
+    return {
+        sseCustomerAlgorithm: customerKey?.algorithm ?? null,
+        sseCustomerKeyHash: customerKey ? hashCustomerKey(customerKey.key) : null,
+    };
+}
+
+/**
+ * Checksum of an uploaded part. A part sent with a checksum must match it; when the upload
+ * was created with `x-amz-checksum-algorithm`, parts must use that algorithm and any part sent
+ * without one gets it computed here, so the composite checksum can always be built.
+ */
+function resolvePartChecksum(
+    uploadAlgorithm: string | null,
+    headers: Headers,
+    data: Buffer,
+    trailers: Record<string, string>,
+): Checksum | S3Error | null {
+    const checksum = parseRequestChecksum(headers, trailers);
+    if (checksum && 'code' in checksum) return checksum;
+    if (checksum) {
+        if (uploadAlgorithm && checksum.algorithm !== uploadAlgorithm) {
+            return S3Errors.InvalidRequest(`Checksum Type mismatch occurred, expected checksum Type: ${uploadAlgorithm.toLowerCase()}, actual checksum Type: ${checksum.algorithm.toLowerCase()}`);
+        }
+        return verifyChecksum(data, checksum) ?? checksum;
+    }
+    if (!uploadAlgorithm) return null;
+    const algorithm = uploadAlgorithm as ChecksumAlgorithm;
+    return { algorithm, value: computeChecksum(algorithm, data) };
+}
+
+/**
+ * Checksum of a copy: recomputed when the request names an algorithm or the source only has a
+ * composite (per-part) value, which would not describe the single-part copy; otherwise kept.
+ */
+function copyChecksum(source: Checksum | null, requested: ChecksumAlgorithm | null, data: Buffer): Checksum | null {
+    const algorithm = requested ?? source?.algorithm;
+    if (!algorithm) return null;
+    if (source && source.algorithm === algorithm && !isCompositeChecksum(source.value)) return source;
+    return { algorithm, value: computeChecksum(algorithm, data) };
+}
+
+function checksumModeEnabled(request: Request): boolean {
+    return request.headers.get('x-amz-checksum-mode')?.toUpperCase() === 'ENABLED';
+}
+
+/** A 304 carries the validators so caches can refresh what they hold */
+function notModifiedResponse(obj: { etag: string; lastModified: Date; versionId: string }, versioned: boolean): Response {
+    const headers: Record<string, string> = {
+        'ETag': `"${obj.etag}"`,
+        'Last-Modified': obj.lastModified.toUTCString(),
+    };
+    if (versioned) headers['x-amz-version-id'] = obj.versionId;
+    return new Response(null, { status: 304, headers });
+}
+
+/**
+ * GET/HEAD hit a delete marker: 404 when it is the current version,
+ * 405 when the marker was requested explicitly by versionId.
+ */
+function deleteMarkerResponse(versionId: string, key: string, requestedByVersion: boolean, method = 'GET'): Response {
+    const response = s3ErrorResponse(requestedByVersion ? S3Errors.MethodNotAllowed(method) : S3Errors.NoSuchKey(key));
+    response.headers.set('x-amz-delete-marker', 'true');
+    response.headers.set('x-amz-version-id', versionId);
+    return response;
+}
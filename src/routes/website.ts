@@ -0,0 +1,226 @@
+import { Elysia } from 'elysia';
+import { db } from '../db/connection';
+import { buckets, objects } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { env } from '../config/env';
+import { storage } from '../lib/storage/filesystem';
+import { S3Errors, type S3Error } from '../lib/errors';
+import { findObjectVersion } from '../lib/versioning';
+import { evaluateBucketPolicy, parseBucketPolicy } from '../lib/policy';
+import { objectEncryptionKey } from '../lib/encryption';
+import { evaluateReadConditions } from '../lib/conditions';
+import { requestHost } from '../lib/virtual-host';
+import { clientIp, isSecureTransport } from '../lib/client';
+import { findRoutingRule, rewriteKey, type RoutingRule, type WebsiteConfiguration } from '../lib/website';
+
+type BucketRecord = typeof buckets.$inferSelect;
+type ObjectRecord = typeof objects.$inferSelect;
+
+interface WebsiteRequest {
+    request: Request;
+    bucket: BucketRecord;
+    config: WebsiteConfiguration;
+    key: string;
+    /** `/<bucket>` for path-style requests on the website port, empty for host-style */
+    basePath: string;
+    protocol: string;
+    host: string;
+    /** Client address for `aws:SourceIp` */
+    clientIp: string | undefined;
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/** Bucket name when the request targets <bucket>.<WEBSITE_HOST_SUFFIX> */
+function bucketFromHost(host: string): string | null {
+    if (!env.website.hostSuffix) return null;
+    const hostname = host.split(':')[0]!.toLowerCase();
+    const suffix = `.${env.website.hostSuffix}`;
+    return hostname.endsWith(suffix) && hostname.length > suffix.length ? hostname.slice(0, -suffix.length) : null;
+}
+
+/** Website endpoints are anonymous: the bucket must be public-read or allow anonymous s3:GetObject */
+function isPubliclyReadable(req: WebsiteRequest, key: string): boolean {
+    const parsed = req.bucket.policy ? parseBucketPolicy(req.bucket.policy, req.bucket.name) : null;
+    const decision = parsed && typeof parsed !== 'string'
+        ? evaluateBucketPolicy(parsed, {
+            principal: '*',
+            action: 's3:GetObject',
+            bucket: req.bucket.name,
+            key,
+            context: {
+                'aws:sourceip': req.clientIp,
+                'aws:securetransport': String(req.protocol === 'https'),
+            },
+        })
+        : 'Implicit';
+    if (decision === 'Deny') return false;
+    return decision === 'Allow' || req.bucket.acl === 'public-read';
+}
+
+/** Website endpoints answer with HTML error pages rather than XML */
+function htmlErrorResponse(error: S3Error, bucketName?: string): Response {
+    const items = [`<li>Code: ${escapeHtml(error.code)}</li>`, `<li>Message: ${escapeHtml(error.message)}</li>`];
+    if (bucketName) items.push(`<li>BucketName: ${escapeHtml(bucketName)}</li>`);
+    const title = `${error.statusCode} ${error.code}`;
+    const body = `<html>\n<head><title>${title}</title></head>\n<body>\n<h1>${title}</h1>\n<ul>\n${items.join('\n')}\n</ul>\n</body>\n</html>\n`;
+    return new Response(body, {
+        status: error.statusCode,
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+}
+
+/** A key as a URL path: each segment percent-encoded, the slashes kept */
+function encodeKeyPath(key: string): string {
+    return key.split('/').map(encodeURIComponent).join('/');
+}
+
+function redirectResponse(location: string, status = 301): Response {
+    return new Response(null, { status, headers: { Location: location } });
+}
+
+function routingRedirect(req: WebsiteRequest, rule: RoutingRule, key: string): Response {
+    const { hostName, protocol, httpRedirectCode } = rule.redirect;
+    const path = `/${encodeKeyPath(rewriteKey(rule, key))}`;
+    const location = hostName
+        ? `${protocol || req.protocol}://${hostName}${path}`
+        : protocol
+            ? `${protocol}://${req.host}${req.basePath}${path}`
+            : `${req.basePath}${path}`;
+    return redirectResponse(location, httpRedirectCode ? parseInt(httpRedirectCode) : 301);
+}
+
+async function objectResponse(req: WebsiteRequest, obj: ObjectRecord, status = 200): Promise<Response> {
+    // Nobody can supply an SSE-C key through a website endpoint
+    if (obj.sseCustomerKeyHash) {
+        return htmlErrorResponse(S3Errors.InvalidRequest('The object was stored using a form of Server Side Encryption.'), req.bucket.name);
+    }
+
+    // Error documents keep their error status, so only real hits can be revalidated
+    if (status === 200) {
+        const precondition = evaluateReadConditions(req.request.headers, obj);
+        if (precondition === 'failed') return htmlErrorResponse(S3Errors.PreconditionFailed(), req.bucket.name);
+        if (precondition === 'not-modified') {
+            return new Response(null, {
+                status: 304,
+                headers: { 'ETag': `"${obj.etag}"`, 'Last-Modified': obj.lastModified.toUTCString() },
+            });
+        }
+    }
+
+    const headers: Record<string, string> = {
+        'Content-Type': obj.contentType,
+        'Content-Length': String(obj.size),
+        'ETag': `"${obj.etag}"`,
+        'Last-Modified': obj.lastModified.toUTCString(),
+    };
+    if (req.request.method === 'HEAD') return new Response(null, { status, headers });
+
+    const data = await storage.readObjectAsBuffer(req.bucket.name, obj.key, undefined, objectEncryptionKey(obj, null));
+    return new Response(data, { status, headers });
+}
+
+/**
+ * 403/404 handling: an error-code routing rule wins, then the bucket's error document
+ * (served with the original status), then the default HTML error page.
+ */
+async function errorResponse(req: WebsiteRequest, error: S3Error): Promise<Response> {
+    const rule = findRoutingRule(req.config.routingRules, req.key, error.statusCode);
+    if (rule) return routingRedirect(req, rule, req.key);
+
+    const errorDocument = req.config.errorDocument;
+    if (errorDocument && isPubliclyReadable(req, errorDocument)) {
+        const doc = await findObjectVersion(req.bucket.id, errorDocument);
+        if (doc && !doc.isDeleteMarker) return objectResponse(req, doc, error.statusCode);
+    }
+
+    return htmlErrorResponse(error, req.bucket.name);
+}
+
+/** Serve a static website request for either a host-style or a path-style bucket address */
+export async function serveWebsite(request: Request, socketAddress: string | undefined): Promise<Response> {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return htmlErrorResponse(S3Errors.MethodNotAllowed(request.method));
+    }
+
+    const url = new URL(request.url);
+    const host = requestHost(request);
+    const protocol = isSecureTransport(request) ? 'https' : 'http';
+
+    const hostBucket = bucketFromHost(host);
+    const [, pathBucket = '', ...rest] = url.pathname.split('/');
+    const bucketName = hostBucket ?? safeDecode(pathBucket);
+    const basePath = hostBucket ? '' : `/${pathBucket}`;
+    const key = safeDecode(hostBucket ? url.pathname.slice(1) : rest.join('/'));
+
+    if (!bucketName) return htmlErrorResponse(S3Errors.NoSuchBucket(''));
+
+    const [bucket] = await db.select().from(buckets)
+        .where(eq(buckets.name, bucketName))
+        .limit(1);
+    if (!bucket) return htmlErrorResponse(S3Errors.NoSuchBucket(bucketName), bucketName);
+    if (!bucket.website) return htmlErrorResponse(S3Errors.NoSuchWebsiteConfiguration(bucketName), bucketName);
+
+    const config: WebsiteConfiguration = JSON.parse(bucket.website);
+    const req: WebsiteRequest = { request, bucket, config, key, basePath, protocol, host, clientIp: clientIp(request, socketAddress) };
+
+    if (config.redirectAllRequestsTo) {
+        const target = config.redirectAllRequestsTo;
+        return redirectResponse(`${target.protocol || protocol}://${target.hostName}/${encodeKeyPath(key)}${url.search}`);
+    }
+
+    // Path-style root without a trailing slash — redirect so relative links resolve inside the bucket
+    if (!hostBucket && rest.length === 0) return redirectResponse(`${basePath}/`, 302);
+
+    const rule = findRoutingRule(config.routingRules, key);
+    if (rule) return routingRedirect(req, rule, key);
+
+    const index = config.indexDocument!;
+    const lookupKey = key === '' || key.endsWith('/') ? `${key}${index}` : key;
+    if (!isPubliclyReadable(req, lookupKey)) return errorResponse(req, S3Errors.AccessDenied());
+
+    const obj = await findObjectVersion(bucket.id, lookupKey);
+    if (!obj || obj.isDeleteMarker) {
+        // "docs" → "docs/" when docs/index.html exists — and may be read, or the redirect
+        // would reveal private folders
+        if (key !== '' && !key.endsWith('/') && isPubliclyReadable(req, `${key}/${index}`)) {
+            const folderIndex = await findObjectVersion(bucket.id, `${key}/${index}`);
+            if (folderIndex && !folderIndex.isDeleteMarker) {
+                return redirectResponse(`${basePath}/${encodeKeyPath(key)}/`, 302);
+            }
+        }
+        return errorResponse(req, S3Errors.NoSuchKey(lookupKey));
+    }
+
+    if (obj.websiteRedirectLocation) return redirectResponse(obj.websiteRedirectLocation);
+
+    return objectResponse(req, obj);
+}
+
+/** Requests for <bucket>.<WEBSITE_HOST_SUFFIX> on the main port are answered as website requests */
+export const websiteHostRoutes = new Elysia({ name: 'website-host' })
+    .onRequest(async ({ request, server }) => {
+        if (bucketFromHost(requestHost(request)) !== null) {
+            return serveWebsite(request, server?.requestIP(request)?.address);
+        }
+    });
+
+/** The dedicated website listener (WEBSITE_PORT) serves every request as a website request */
+export function startWebsiteServer(): void {
+    if (env.website.port <= 0) return;
+
+    new Elysia()
+        .onRequest(({ request, server }) => serveWebsite(request, server?.requestIP(request)?.address))
+        .listen(env.website.port);
+    console.log(`[Website] Serving bucket websites on port ${env.website.port}`);
+}